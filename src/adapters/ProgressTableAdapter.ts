@@ -1,27 +1,29 @@
 import type { ColumnDef, Activity } from '../types';
 import { calculateEnd, calculateDuration } from '../domain/durationRules';
 import { validateActivityDates, validateActivityDuration } from '../domain/validation';
+import { defaultTranslator, Translate } from '../i18n';
 
 /**
  * En enkel kolonnemapping for Progress-aktiviteter.
  * Merk: TableCore i v1 viser verdier – redigering og patch-håndtering
  * kommer i neste iterasjoner. Denne adapteren etablerer format, validering m.m.
+ * Overskrifter og statusnavn hentes fra meldingskatalogen (t fra useI18n(), ellers norsk).
  */
 
-const statusOptions = [
-  { value: 'planned',   label: 'Planlagt' },
-  { value: 'inprogress',label: 'Pågår' },
-  { value: 'done',      label: 'Ferdig' },
+const statusOptions = (t: Translate) => [
+  { value: 'planned',   label: t('status.planned') },
+  { value: 'inprogress',label: t('status.inprogress') },
+  { value: 'done',      label: t('status.done') },
 ];
 
-export function getProgressColumns(): ColumnDef<Activity, any>[] {
+export function getProgressColumns(t: Translate = defaultTranslator.t): ColumnDef<Activity, any>[] {
   const cols: ColumnDef<Activity, any>[] = [
-    { id: 'code', header: 'Kode', type: 'text', width: 100 },
-    { id: 'name', header: 'Aktivitet', type: 'text', width: 240 },
+    { id: 'code', header: t('progress.code'), type: 'text', width: 100 },
+    { id: 'name', header: t('progress.name'), type: 'text', width: 240, wrap: true },
 
     {
       id: 'start',
-      header: 'Start',
+      header: t('progress.start'),
       type: 'date',
       width: 120,
       validate: (_value, row) => validateActivityDates(row),
@@ -30,7 +32,7 @@ export function getProgressColumns(): ColumnDef<Activity, any>[] {
 
     {
       id: 'end',
-      header: 'Slutt',
+      header: t('progress.end'),
       type: 'date',
       width: 120,
       validate: (_value, row) => validateActivityDates(row),
@@ -38,20 +40,20 @@ export function getProgressColumns(): ColumnDef<Activity, any>[] {
 
     {
       id: 'durationDays',
-      header: 'Varighet (dager)',
+      header: t('progress.duration'),
       type: 'number',
       width: 120,
       validate: (_value, row) => validateActivityDuration(row),
     },
 
-    { id: 'color', header: 'Farge', type: 'color', width: 80 },
+    { id: 'color', header: t('progress.color'), type: 'color', width: 80 },
 
     {
       id: 'status',
-      header: 'Status',
+      header: t('progress.status'),
       type: 'select',
       width: 140,
-      options: statusOptions,
+      options: statusOptions(t),
     },
   ];
 
@@ -1,4 +1,6 @@
 import React from 'react';
+import ViewMenu, { ViewMenuProps } from './ViewMenu';
+import { themeStyles, useTableTheme } from '../core/theme';
 
 export type ToolbarAction = {
   id: string;
@@ -13,12 +15,22 @@ export type AppToolbarProps = {
   title?: string;
   leftActions?: ToolbarAction[];
   rightActions?: ToolbarAction[];
+  views?: ViewMenuProps; // nedtrekk for lagrede tabellvisninger
   children?: React.ReactNode; // f.eks. søkefelt eller filterchips
 };
 
-export default function AppToolbar({ title, leftActions = [], rightActions = [], children }: AppToolbarProps) {
+export default function AppToolbar({ title, leftActions = [], rightActions = [], views, children }: AppToolbarProps) {
+  // Farger fra tabelltemaet; knapper og visningsvelger leser dem via lokale CSS-variabler (styles.css)
+  const t = themeStyles(useTableTheme());
+  const style = {
+    background: t.headerBg,
+    color: t.headerFg,
+    '--app-toolbar-bg': t.headerBg,
+    '--app-toolbar-border': t.borderH,
+    '--app-toolbar-hover': t.menuHover,
+  } as React.CSSProperties;
   return (
-    <div className="app-toolbar">
+    <div className="app-toolbar" style={style}>
       <div className="app-toolbar__inner">
         <div className="app-toolbar__left">
           {title && <div className="app-toolbar__title">{title}</div>}
@@ -36,6 +48,7 @@ export default function AppToolbar({ title, leftActions = [], rightActions = [],
               </button>
             ))}
           </div>
+          {views && <div className="app-toolbar__slot"><ViewMenu {...views} /></div>}
           {children && <div className="app-toolbar__slot">{children}</div>}
         </div>
 
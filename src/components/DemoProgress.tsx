@@ -1,8 +1,16 @@
 import React from 'react';
-import TableCore from '../core/TableCore';
-import type { ColumnDef } from '../types';
+import TableCore, { TableCoreHandle } from '../core/TableCore';
+import { useUndoRedo } from '../core/useUndoRedo';
+import { THEMES, TableThemeContext, themeStyles } from '../core/theme';
+import AppToolbar from './AppToolbar';
+import { I18nContext, createTranslator, defaultTranslator, Translate } from '../i18n';
+import type { CellError, CellRendererProps, ColumnDef, Locale, RowInsert, SavedView, TableCommand, TableViewState, ThemeName } from '../types';
+import { ensureDb } from '../data/initDb';
+import { createDemoTranslator } from './demoMessages';
+import { ViewRepo } from '../data/ViewRepo';
+import { validateActivityDates, validateActivityDuration } from '../domain/validation';
 
-type Activity = {
+type ProgressRow = {
   id: string;
   code?: string;
   name: string;
@@ -17,32 +25,152 @@ type Activity = {
   rowType?: 'data' | 'summary';
 };
 
-const columns: ColumnDef[] = [
-  { id: 'code', header: 'Kode', type: 'text', width: 100 },
-  { id: 'name', header: 'Navn', type: 'text', width: 240, editable: () => true },
-  { id: 'start', header: 'Start', type: 'date', width: 130 },
-  { id: 'end', header: 'Slutt', type: 'date', width: 130 },
-  { id: 'durationDays', header: 'Varighet (d)', type: 'number', width: 130 },
-  { id: 'status', header: 'Status', type: 'select', options: ['planlagt','aktiv','ferdig'], width: 120 },
-  { id: 'color', header: 'Farge', type: 'color', width: 110 },
+// Status som farget merke (egen visning via ColumnDef.render) med det oversatte navnet fra options
+const STATUS_COLORS: Record<string, string> = { planlagt: '#64748b', aktiv: '#2563eb', ferdig: '#16a34a' };
+function StatusPill({ value, text, column }: CellRendererProps) {
+  if (!value) return null;
+  return (
+    <span style={{ padding: '1px 8px', borderRadius: 10, fontSize: 12, color: '#fff', background: STATUS_COLORS[value] ?? '#64748b' }}>
+      {column.options?.find(o => o.value === value)?.label ?? text}
+    </span>
+  );
+}
+
+// Overskrifter og statusnavn på valgt språk (samme nøkler som Progress-adapteren)
+const columnsFor = (t: Translate): ColumnDef<ProgressRow>[] => [
+  { id: 'code', header: t('progress.code'), type: 'text', width: 100 },
+  { id: 'name', header: t('progress.name'), type: 'text', width: 240, wrap: true, editable: () => true },
+  { id: 'start', header: t('progress.start'), type: 'date', width: 130, aggregate: 'earliest' },
+  { id: 'end', header: t('progress.end'), type: 'date', width: 130, aggregate: 'latest', validate: (_v, row) => validateActivityDates(row) },
+  { id: 'durationDays', header: t('progress.duration'), type: 'number', width: 130, aggregate: 'sum', formula: true, validate: (_v, row) => validateActivityDuration(row) },
+  { id: 'status', header: t('progress.status'), type: 'select', options: [
+    { value: 'planlagt', label: t('status.planned') },
+    { value: 'aktiv', label: t('status.inprogress') },
+    { value: 'ferdig', label: t('status.done') },
+  ], width: 120, render: StatusPill },
+  { id: 'color', header: t('progress.color'), type: 'color', width: 110 },
 ];
 
-const initialRows: Activity[] = [
+// Tastekombinasjonene ({indent} osv.) i en oversatt hjelpetekst vises som <code>
+const withKeys = (text: string, keys: Record<string, string>) =>
+  text.split(/\{(\w+)\}/).map((part, i) => (i % 2 ? <code key={i}>{keys[part] ?? part}</code> : part));
+
+const initialRows: ProgressRow[] = [
   { id: 'A', code: 'A', name: 'Hovedleveranse', status: 'planlagt', parentId: null },
-  { id: 'A1', code: 'A1', name: 'Analyse', status: 'aktiv', parentId: 'A' },
+  { id: 'A1', code: 'A1', name: 'Analyse', status: 'aktiv', parentId: 'A', start: '2025-01-06', end: '2025-01-17', durationDays: 10 },
   { id: 'A2', code: 'A2', name: 'Design', status: 'planlagt', parentId: 'A' },
-  { id: 'A2.1', code: 'A2.1', name: 'UI-design', status: 'planlagt', parentId: 'A2' },
-  { id: 'A2.2', code: 'A2.2', name: 'Interaksjon', status: 'planlagt', parentId: 'A2' },
+  { id: 'A2.1', code: 'A2.1', name: 'UI-design', status: 'planlagt', parentId: 'A2', start: '2025-01-20', end: '2025-02-07', durationDays: 15 },
+  { id: 'A2.2', code: 'A2.2', name: 'Interaksjon', status: 'planlagt', parentId: 'A2', start: '2025-02-03', end: '2025-02-14', durationDays: 10 },
   // Eksempel på “sammendragslinje” for en gruppe:
   { id: 'SUM-A', name: 'Sum Hovedleveranse', rowType: 'summary', parentId: 'A' },
 
   { id: 'B', code: 'B', name: 'Implementering', status: 'planlagt', parentId: null },
-  { id: 'B1', code: 'B1', name: 'Kjerne', status: 'planlagt', parentId: 'B' },
-  { id: 'B2', code: 'B2', name: 'Adaptere', status: 'planlagt', parentId: 'B' },
+  { id: 'B1', code: 'B1', name: 'Kjerne', status: 'planlagt', parentId: 'B', start: '2025-02-17', end: '2025-03-14', durationDays: 20 },
+  { id: 'B2', code: 'B2', name: 'Adaptere', status: 'planlagt', parentId: 'B', start: '2025-03-17', end: '2025-03-28', durationDays: 10 },
 ];
 
+// Demo: ett prosjekt og én lokal bruker
+const PROJECT_ID = 'demo';
+const ADAPTER_ID = 'progress';
+const USER_ID = 'local';
+
+// Standardoppsettet setter alle felt, så ingenting blir igjen fra forrige visning (alle foreldre åpne, ingen gruppering)
+const defaultView = (rows: ProgressRow[]): TableViewState => ({
+  columnOrder: columnsFor(defaultTranslator.t).map(c => c.id),
+  columnWidths: {},
+  hiddenColumns: [],
+  frozenColumns: 2,
+  frozenRightColumns: 0,
+  frozenRows: 0,
+  sort: [],
+  filters: {},
+  expanded: [...new Set(rows.flatMap(r => (r.parentId ? [r.parentId] : [])))],
+  groupBy: [],
+  collapsedGroups: [],
+});
+
 export default function DemoProgress() {
-  const [rows, setRows] = React.useState<Activity[]>(initialRows);
+  const [rows, setRows] = React.useState<ProgressRow[]>(initialRows);
+  const [errors, setErrors] = React.useState<CellError[]>([]);
+  const tableRef = React.useRef<TableCoreHandle>(null);
+  const [themeName, setThemeName] = React.useState<ThemeName>('dark');
+  const [locale, setLocale] = React.useState<Locale>('nb');
+  const i18n = React.useMemo(() => createTranslator(locale), [locale]);
+  const { t } = i18n;
+  const dt = React.useMemo(() => createDemoTranslator(locale), [locale]); // demoens egne tekster
+  const columns = React.useMemo(() => columnsFor(t), [t]);
+  // Hjelpeteksten bruker temaets farger (CSS-variabler med temaet som reserve)
+  const colors = React.useMemo(() => themeStyles(THEMES[themeName]), [themeName]);
+  const history = useUndoRedo({ limit: 100 });
+
+  // Lagrede visninger (IndexedDB) + arbeidskopi av visningsoppsettet
+  const [viewRepo, setViewRepo] = React.useState<ViewRepo | null>(null);
+  const [savedViews, setSavedViews] = React.useState<SavedView[]>([]);
+  const [activeViewId, setActiveViewId] = React.useState<string | null>(null);
+  const [view, setView] = React.useState<TableViewState | undefined>(undefined);
+  const [dirty, setDirty] = React.useState(false);
+  const [viewError, setViewError] = React.useState<string | null>(null);
+  const showViewError = (err: unknown) => setViewError(err instanceof Error ? err.message : String(err));
+
+  React.useEffect(() => {
+    let alive = true;
+    ensureDb().then(async db => {
+      const repo = new ViewRepo(db);
+      const list = await repo.listFor(PROJECT_ID, ADAPTER_ID);
+      if (!alive) return;
+      setViewRepo(repo);
+      setSavedViews(list);
+      const def = list.find(v => v.defaultFor?.includes(USER_ID));
+      if (def) { setActiveViewId(def.id); setView(def.state); }
+    }).catch(err => { if (alive) showViewError(err); });
+    return () => { alive = false; };
+  }, []);
+
+  // Lagring i IndexedDB kan feile (kvote, blokkert database); feilen vises over tabellen
+  const guarded = <A extends any[]>(run: (...args: A) => Promise<void>) => (...args: A) => {
+    setViewError(null);
+    run(...args).catch(showViewError);
+  };
+
+  async function reloadViews() {
+    if (viewRepo) setSavedViews(await viewRepo.listFor(PROJECT_ID, ADAPTER_ID));
+  }
+  function onViewStateChange(next: TableViewState) {
+    setView(next);
+    setDirty(true);
+  }
+  function selectView(id: string | null) {
+    const v = savedViews.find(x => x.id === id);
+    setActiveViewId(v?.id ?? null);
+    setView(v ? v.state : defaultView(rows));
+    setDirty(false);
+  }
+  async function saveActiveView() {
+    if (!viewRepo || !activeViewId || !view) return;
+    await viewRepo.updateState(activeViewId, view);
+    setDirty(false);
+    await reloadViews();
+  }
+  async function saveViewAs(name: string) {
+    if (!viewRepo) return;
+    const created = await viewRepo.saveAs(PROJECT_ID, ADAPTER_ID, name, view ?? defaultView(rows), USER_ID);
+    setActiveViewId(created.id);
+    setDirty(false);
+    await reloadViews();
+  }
+  async function renameView(id: string, name: string) {
+    await viewRepo?.rename(id, name);
+    await reloadViews();
+  }
+  async function deleteView(id: string) {
+    await viewRepo?.delete(id);
+    if (id === activeViewId) selectView(null);
+    await reloadViews();
+  }
+  async function setDefaultView(id: string) {
+    await viewRepo?.setDefault(id, USER_ID);
+    await reloadViews();
+  }
 
   function patchOne(p: { rowId: string; colId: string; oldValue: any; nextValue: any }) {
     setRows(prev =>
@@ -50,10 +178,42 @@ export default function DemoProgress() {
     );
   }
 
+  // Nye rader fra TableCore (lim inn, sett inn, dupliser, angre sletting)
+  function insertRows(insert: RowInsert) {
+    setRows(prev => {
+      // Undertrær (duplikat/gjenoppretting) har egen parentId
+      const added = insert.rows.map(r => ({ ...r, parentId: 'parentId' in r ? r.parentId : (insert.parentId ?? null) }));
+      const at = insert.afterRowId ? prev.findIndex(r => r.id === insert.afterRowId) + 1 : 0;
+      return [...prev.slice(0, at), ...added, ...prev.slice(at)];
+    });
+  }
+
+  function deleteRows(ids: string[]) {
+    const gone = new Set(ids);
+    setRows(prev => prev.filter(r => !gone.has(r.id)));
+  }
+
+  // Egen kommando: Ctrl/Cmd+Shift+D markerer valgte rader som ferdige
+  const commands: TableCommand[] = [{
+    id: 'markDone',
+    label: dt('demo.markDone'),
+    keys: ['Mod+Shift+D'],
+    run: ({ selectedRows }) => {
+      const changes = selectedRows
+        .filter(r => r.rowType !== 'summary' && r.status !== 'ferdig')
+        .map(r => ({ rowId: r.id, colId: 'status', oldValue: r.status, nextValue: 'ferdig' }));
+      // Appens egen endring i samme angre-historikk som tabellen
+      history.transaction(() => {
+        changes.forEach(patchOne);
+        history.push({ changes });
+      });
+    },
+  }];
+
   function bulkReorder(newOrderIds: string[]) {
     // re-ranger rows etter id-lista fra TableCore
     const byId = new Map(rows.map(r => [r.id, r]));
-    const next: Activity[] = [];
+    const next: ProgressRow[] = [];
     for (const id of newOrderIds) {
       const r = byId.get(id);
       if (r) next.push(r);
@@ -64,27 +224,99 @@ export default function DemoProgress() {
   }
 
   return (
-    <div style={{ display: 'grid', gridTemplateRows: 'auto 1fr', height: 'calc(100vh - 100px)', gap: 8 }}>
-      <div style={{ color: '#9ca3af', fontSize: 14 }}>
-        <strong>Test tre-modus:</strong> Klikk en rad og bruk <code>Alt+→</code> for å rykke inn, <code>Alt+←</code> for å rykke ut, <code>Alt+↑/Alt+↓</code> for å flytte opp/ned innen samme parent.  
-        Vanlige piltaster <code>→/←</code> ekspanderer/kollapser hvis raden har barn.
-      </div>
-
-      <TableCore
-        columns={columns}
-        rows={rows}
-        bodyHeight={520}
-        // 🔽 Tre-aktivering:
-        treeMode
-        showSummaries
-        getParentId={(r) => r.parentId ?? null}
-        getRowType={(r) => r.rowType ?? 'data'}
-
-        onPatch={patchOne}
-        onReorderRows={bulkReorder}
-        onReorderColumns={() => {}}
-        onCommit={() => {}}
-      />
-    </div>
+    <TableThemeContext.Provider value={THEMES[themeName]}>
+      <I18nContext.Provider value={i18n}>
+        <div style={{ display: 'grid', gridTemplateRows: 'auto auto 1fr', height: 'calc(100vh - 100px)', gap: 8 }}>
+          <AppToolbar
+            title={dt('demo.title')}
+            leftActions={[
+              { id: 'undo', label: dt('demo.undo'), icon: 'undo', disabled: !history.canUndo, onClick: history.undo },
+              { id: 'redo', label: dt('demo.redo'), icon: 'redo', disabled: !history.canRedo, onClick: history.redo },
+            ]}
+            views={viewRepo ? {
+              views: savedViews.map(v => ({ id: v.id, name: v.name, isDefault: v.defaultFor?.includes(USER_ID) })),
+              activeId: activeViewId,
+              dirty: dirty && !!activeViewId,
+              onSelect: selectView,
+              onSave: guarded(saveActiveView),
+              onSaveAs: guarded(saveViewAs),
+              onRename: guarded(renameView),
+              onDelete: guarded(deleteView),
+              onSetDefault: guarded(setDefaultView),
+            } : undefined}
+          >
+            <select
+              className="view-menu__select"
+              value={themeName}
+              onChange={(e) => setThemeName(e.target.value as ThemeName)}
+              title={dt('demo.theme')}
+            >
+              <option value="dark">{dt('demo.themeDark')}</option>
+              <option value="light">{dt('demo.themeLight')}</option>
+              <option value="high-contrast">{dt('demo.themeHighContrast')}</option>
+            </select>
+            <select
+              className="view-menu__select"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value as Locale)}
+              title={dt('demo.language')}
+            >
+              <option value="nb">Norsk</option>
+              <option value="en">English</option>
+            </select>
+          </AppToolbar>
+
+          <div style={{ color: colors.rowHeaderFg, fontSize: 14 }}>
+            <strong>{dt('demo.helpTitle')}</strong>{' '}
+            {withKeys(dt('demo.helpIndent'), { indent: 'Alt+→', outdent: 'Alt+←', move: 'Alt+↑/Alt+↓' })}{' '}
+            {withKeys(dt('demo.helpExpand'), { keys: '→/←' })}{' '}
+            {withKeys(dt('demo.helpCommands'), { keys: 'Ctrl/Cmd+Shift+D' })}
+            {errors.length ? (
+              <span style={{ color: colors.error, marginLeft: 8 }}>
+                {withKeys(dt('demo.errors', { count: errors.length }), { key: 'F8' })}{' '}
+                <a href="#" style={{ color: 'inherit' }} onClick={(e) => { e.preventDefault(); tableRef.current?.focusCell(errors[0].rowId, errors[0].colId); }}>
+                  {dt('demo.showFirst')}
+                </a>.
+              </span>
+            ) : null}
+            {viewError ? (
+              <span role="alert" style={{ color: colors.error, marginLeft: 8 }}>{dt('demo.viewsFailed', { error: viewError })}</span>
+            ) : null}
+          </div>
+
+          <TableCore
+            ref={tableRef}
+            ariaLabel={dt('demo.activities')}
+            columns={columns}
+            rows={rows}
+            bodyHeight={520}
+            // 🔽 Tre-aktivering:
+            treeMode
+            showSummaries
+            showTotals
+            getParentId={(r) => r.parentId ?? null}
+            getRowType={(r) => r.rowType ?? 'data'}
+
+            showFilterRow
+            showGroupPanel
+            viewState={view}
+            onViewStateChange={onViewStateChange}
+
+            commands={commands}
+            validationMode="flag"
+            onValidationChange={setErrors}
+
+            history={history}
+            onPatch={patchOne}
+            onInsertRows={insertRows}
+            onDeleteRows={deleteRows}
+            createRowDraft={(draft) => ({ ...draft, name: '', status: 'planlagt' })}
+            onReorderRows={bulkReorder}
+            onReorderColumns={() => {}}
+            onCommit={() => {}}
+          />
+        </div>
+      </I18nContext.Provider>
+    </TableThemeContext.Provider>
   );
 }
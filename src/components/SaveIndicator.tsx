@@ -1,13 +1,15 @@
 import React from 'react';
+import { useI18n } from '../i18n';
 
 export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
 
 export default function SaveIndicator({ state }: { state: SaveState }) {
+  const { t } = useI18n();
   const map: Record<SaveState, { text: string; color: string }> = {
-    idle:   { text: 'Klar',     color: '#94a3b8' },
-    saving: { text: 'Lagrer…',  color: '#fbbf24' },
-    saved:  { text: 'Lagret',   color: '#34d399' },
-    error:  { text: 'Feil',     color: '#f87171' },
+    idle:   { text: t('save.idle'),   color: '#94a3b8' },
+    saving: { text: t('save.saving'), color: '#fbbf24' },
+    saved:  { text: t('save.saved'),  color: '#34d399' },
+    error:  { text: t('save.error'),  color: '#f87171' },
   };
   const { text, color } = map[state];
 
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useI18n } from '../i18n';
+
+export type ViewMenuItem = {
+  id: string;
+  name: string;
+  isDefault?: boolean; // standardvisning for innlogget bruker
+};
+
+export type ViewMenuProps = {
+  views: ViewMenuItem[];
+  activeId?: string | null;
+  dirty?: boolean; // aktiv visning har ulagrede endringer
+  onSelect: (id: string | null) => void; // null = standardoppsett
+  onSave?: () => void;
+  onSaveAs?: (name: string) => void;
+  onRename?: (id: string, name: string) => void;
+  onDelete?: (id: string) => void;
+  onSetDefault?: (id: string) => void;
+};
+
+export default function ViewMenu({
+  views, activeId = null, dirty, onSelect, onSave, onSaveAs, onRename, onDelete, onSetDefault,
+}: ViewMenuProps) {
+  const { t } = useI18n();
+  const active = views.find(v => v.id === activeId) ?? null;
+
+  function saveAs() {
+    const name = window.prompt(t('views.namePrompt'), active ? t('views.copyName', { name: active.name }) : '');
+    if (name?.trim()) onSaveAs?.(name.trim());
+  }
+  function rename() {
+    if (!active) return;
+    const name = window.prompt(t('views.renamePrompt'), active.name);
+    if (name?.trim() && name.trim() !== active.name) onRename?.(active.id, name.trim());
+  }
+  function remove() {
+    if (!active) return;
+    if (window.confirm(t('views.confirmDelete', { name: active.name }))) onDelete?.(active.id);
+  }
+
+  return (
+    <div className="view-menu">
+      <select
+        className="view-menu__select"
+        value={activeId ?? ''}
+        onChange={e => onSelect(e.target.value || null)}
+        title={t('views.label')}
+      >
+        <option value="">{t('views.default')}</option>
+        {views.map(v => (
+          <option key={v.id} value={v.id}>
+            {v.isDefault ? '★ ' : ''}{v.name}
+          </option>
+        ))}
+      </select>
+      {dirty ? <span className="view-menu__dirty" title={t('views.unsaved')}>●</span> : null}
+      {onSave && active ? (
+        <button className="app-toolbar__btn" onClick={onSave} disabled={!dirty} title={t('views.saveTitle')}>{t('views.save')}</button>
+      ) : null}
+      {onSaveAs ? <button className="app-toolbar__btn" onClick={saveAs}>{t('views.saveAs')}</button> : null}
+      {onRename && active ? <button className="app-toolbar__btn" onClick={rename}>{t('views.rename')}</button> : null}
+      {onSetDefault && active && !active.isDefault ? (
+        <button className="app-toolbar__btn" onClick={() => onSetDefault(active.id)} title={t('views.setDefault')}>★</button>
+      ) : null}
+      {onDelete && active ? <button className="app-toolbar__btn" onClick={remove} title={t('views.deleteTitle')}>{t('views.delete')}</button> : null}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import type { Locale, Message, MessageParams } from '../types';
+import { formatMessage } from '../i18n';
+
+/**
+ * Tekster som bare demoappen bruker. Bibliotekets kataloger (src/i18n) har bare tabellens egne;
+ * demoen oversetter resten selv med samme format (plassholdere og flertall).
+ */
+
+const nb = {
+  'demo.title': 'Fremdriftsplan',
+  'demo.activities': 'Aktiviteter',
+  'demo.undo': 'Angre',
+  'demo.redo': 'Gjør om',
+  'demo.markDone': 'Marker som ferdig',
+  'demo.theme': 'Tema',
+  'demo.themeDark': 'Mørkt tema',
+  'demo.themeLight': 'Lyst tema',
+  'demo.themeHighContrast': 'Høy kontrast',
+  'demo.language': 'Språk',
+  'demo.helpTitle': 'Test tre-modus:',
+  'demo.helpIndent': 'Klikk en rad og bruk {indent} for å rykke inn, {outdent} for å rykke ut, {move} for å flytte opp/ned innen samme parent.',
+  'demo.helpExpand': 'Vanlige piltaster {keys} ekspanderer/kollapser hvis raden har barn.',
+  'demo.helpCommands': '{keys} markerer valgte rader som ferdige. Høyreklikk for å sette inn, duplisere eller slette rader.',
+  'demo.errors': '{count} valideringsfeil – {key} går til neste, eller',
+  'demo.showFirst': 'vis første',
+  'demo.viewsFailed': 'Visningene kunne ikke leses eller lagres: {error}',
+} satisfies Record<string, Message>;
+
+export type DemoMessageKey = keyof typeof nb;
+
+const en: Record<DemoMessageKey, Message> = {
+  'demo.title': 'Schedule',
+  'demo.activities': 'Activities',
+  'demo.undo': 'Undo',
+  'demo.redo': 'Redo',
+  'demo.markDone': 'Mark as done',
+  'demo.theme': 'Theme',
+  'demo.themeDark': 'Dark theme',
+  'demo.themeLight': 'Light theme',
+  'demo.themeHighContrast': 'High contrast',
+  'demo.language': 'Language',
+  'demo.helpTitle': 'Try tree mode:',
+  'demo.helpIndent': 'Click a row and use {indent} to indent, {outdent} to outdent, {move} to move up/down within the same parent.',
+  'demo.helpExpand': 'Plain arrow keys {keys} expand/collapse rows with children.',
+  'demo.helpCommands': '{keys} marks the selected rows as done. Right-click to insert, duplicate or delete rows.',
+  'demo.errors': { one: '{count} validation error – {key} goes to the next, or', other: '{count} validation errors – {key} goes to the next, or' },
+  'demo.showFirst': 'show first',
+  'demo.viewsFailed': 'Views could not be loaded or saved: {error}',
+};
+
+const DEMO_CATALOGS: Record<Locale, Record<DemoMessageKey, Message>> = { nb, en };
+
+export type DemoTranslate = (key: DemoMessageKey, params?: MessageParams) => string;
+
+export function createDemoTranslator(locale: Locale): DemoTranslate {
+  const plural = new Intl.PluralRules(locale);
+  return (key, params) => formatMessage(DEMO_CATALOGS[locale][key], plural, params);
+}
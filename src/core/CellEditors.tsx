@@ -1,4 +1,5 @@
 import React from 'react';
+import { themeVar } from './theme';
 
 type Common = {
   value: any;
@@ -22,7 +23,7 @@ function useKeyHandlers({ onEnter, onEscape }: { onEnter: () => void; onEscape:
 const inputBase: React.CSSProperties = {
   width: '100%',
   height: 28,
-  border: '1px solid #e5e7eb',
+  border: `1px solid ${themeVar('inputBorder')}`,
   borderRadius: 6,
   padding: '0 8px',
   fontSize: 13,
@@ -51,14 +52,60 @@ export function TextEditor({ value, autoFocus, onChange, onEnter, onEscape, onBl
   );
 }
 
-export function NumberEditor({ value, autoFocus, onChange, onEnter, onEscape, onBlur }: Common) {
+/**
+ * Flerlinjes tekst: Enter lagrer, Shift+Enter gir ny linje.
+ * Høyden følger innholdet slik at raden vokser mens man skriver.
+ */
+export function TextAreaEditor({ value, autoFocus, onChange, onEnter, onEscape, onBlur }: Common) {
+  const ref = React.useRef<HTMLTextAreaElement>(null);
+  React.useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${el.scrollHeight}px`;
+  }, [value]);
+  const onKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); onEnter(); }
+    else if (e.key === 'Escape') onEscape();
+  };
+  return (
+    <textarea
+      ref={ref}
+      autoFocus={autoFocus}
+      rows={1}
+      value={value ?? ''}
+      onChange={e => onChange(e.target.value)}
+      onKeyDown={onKeyDown}
+      onBlur={onBlur}
+      onMouseDown={stop}
+      style={{ ...inputBase, height: 'auto', padding: '0 8px', resize: 'none', lineHeight: 'inherit', fontFamily: 'inherit' }}
+    />
+  );
+}
+
+/**
+ * Tall som tekst på tabellens språk («1 234,50»); toText gir starttekst, parse tolker hver endring.
+ * Uten dem brukes punktum som desimaltegn. Tekst som ikke er et tall, sendes videre som tekst
+ * (aldri NaN), så valideringen stopper eller flagger den.
+ */
+export function NumberEditor({ value, autoFocus, onChange, onEnter, onEscape, onBlur, toText, parse }: Common & {
+  toText?: (value: any) => string;
+  parse?: (text: string) => any;
+}) {
   const onKeyDown = useKeyHandlers({ onEnter, onEscape });
+  const [text, setText] = React.useState(() => (toText ? toText(value) : value == null ? '' : String(value)));
   return (
     <input
       autoFocus={autoFocus}
-      type="number"
-      value={value ?? ''}
-      onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        const raw = e.target.value;
+        const n = raw.trim() === '' ? undefined : Number(raw);
+        onChange(parse ? parse(raw) : n !== undefined && isNaN(n) ? raw : n);
+      }}
       onKeyDown={onKeyDown}
       onBlur={onBlur}
       onMouseDown={stop}
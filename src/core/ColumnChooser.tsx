@@ -0,0 +1,54 @@
+import React from 'react';
+import type { ColumnDef } from '../types';
+import { themeVar } from './theme';
+import { useI18n } from '../i18n';
+
+type Props = {
+  columns: ColumnDef[]; // i visningsrekkefølge
+  hidden: string[];
+  onToggle: (colId: string) => void;
+  onShowAll: () => void;
+  onClose: () => void;
+};
+
+/** Popover for å vise/skjule kolonner. Minst én kolonne må være synlig. */
+export function ColumnChooser({ columns, hidden, onToggle, onShowAll, onClose }: Props) {
+  const { t } = useI18n();
+  const visibleCount = columns.length - hidden.length;
+  return (
+    <div
+      data-tc-input
+      onMouseDown={(e) => e.stopPropagation()}
+      onMouseLeave={onClose}
+      style={{
+        position: 'absolute', top: '100%', left: 0, zIndex: 30, minWidth: 200, maxHeight: 320, overflow: 'auto',
+        background: themeVar('menuBg'), color: themeVar('headerFg'), border: `1px solid ${themeVar('borderV')}`, borderRadius: 4,
+        padding: 6, fontWeight: 400, fontSize: 12, textAlign: 'left',
+      }}
+    >
+      {columns.map(c => {
+        const isHidden = hidden.includes(c.id);
+        return (
+          <label key={c.id} style={{ display: 'flex', gap: 6, alignItems: 'center', padding: '2px 4px', whiteSpace: 'nowrap' }}>
+            <input
+              type="checkbox"
+              checked={!isHidden}
+              disabled={!isHidden && visibleCount <= 1}
+              onChange={() => onToggle(c.id)}
+            />
+            {c.header}
+          </label>
+        );
+      })}
+      {hidden.length ? (
+        <button
+          type="button"
+          onClick={onShowAll}
+          style={{ marginTop: 4, width: '100%', background: 'transparent', color: 'inherit', border: `1px solid ${themeVar('borderV')}`, borderRadius: 4, cursor: 'pointer', fontSize: 12 }}
+        >
+          {t('columnChooser.showAll')}
+        </button>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { themeVar } from './theme';
+
+export type ContextMenuItem = {
+  id: string;
+  label: string;
+  shortcut?: string;
+  disabled?: boolean;
+  danger?: boolean;
+  separatorBefore?: boolean;
+};
+
+type Props = {
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onSelect: (id: string) => void;
+  onClose: () => void;
+};
+
+/** Enkel høyreklikkmeny i viewport-koordinater. Lukkes ved klikk utenfor, Esc eller rulling. */
+export function ContextMenu({ x, y, items, onSelect, onClose }: Props) {
+  const ref = React.useRef<HTMLDivElement>(null);
+  const [pos, setPos] = React.useState({ x, y });
+
+  // Hold menyen innenfor vinduet
+  React.useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const r = el.getBoundingClientRect();
+    setPos({
+      x: Math.max(4, Math.min(x, window.innerWidth - r.width - 4)),
+      y: Math.max(4, Math.min(y, window.innerHeight - r.height - 4)),
+    });
+  }, [x, y]);
+
+  React.useEffect(() => {
+    const onDown = (e: MouseEvent) => { if (!ref.current?.contains(e.target as Node)) onClose(); };
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') { e.stopPropagation(); onClose(); } };
+    window.addEventListener('mousedown', onDown);
+    window.addEventListener('keydown', onKey, true);
+    window.addEventListener('scroll', onClose, true);
+    window.addEventListener('blur', onClose);
+    return () => {
+      window.removeEventListener('mousedown', onDown);
+      window.removeEventListener('keydown', onKey, true);
+      window.removeEventListener('scroll', onClose, true);
+      window.removeEventListener('blur', onClose);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={ref}
+      data-tc-input
+      role="menu"
+      onContextMenu={(e) => e.preventDefault()}
+      style={{
+        position: 'fixed', left: pos.x, top: pos.y, zIndex: 50, minWidth: 220,
+        background: themeVar('menuBg'), color: themeVar('headerFg'), border: `1px solid ${themeVar('borderV')}`, borderRadius: 4,
+        padding: 4, fontSize: 12, boxShadow: '0 6px 20px rgba(0,0,0,0.4)',
+      }}
+    >
+      {items.map(item => (
+        <React.Fragment key={item.id}>
+          {item.separatorBefore ? <div style={{ height: 1, background: themeVar('borderV'), margin: '4px 0' }} /> : null}
+          <button
+            type="button"
+            role="menuitem"
+            disabled={item.disabled}
+            onClick={() => { onClose(); onSelect(item.id); }}
+            style={{
+              display: 'flex', width: '100%', justifyContent: 'space-between', gap: 16,
+              padding: '4px 8px', background: 'transparent', border: 0, borderRadius: 3, textAlign: 'left',
+              color: item.disabled ? themeVar('mutedFg') : item.danger ? themeVar('danger') : 'inherit',
+              opacity: item.disabled ? 0.6 : 1,
+              cursor: item.disabled ? 'default' : 'pointer', fontSize: 12,
+            }}
+            onMouseEnter={(e) => { if (!item.disabled) e.currentTarget.style.background = themeVar('menuHover'); }}
+            onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+          >
+            <span>{item.label}</span>
+            {item.shortcut ? <span style={{ color: themeVar('mutedFg') }}>{item.shortcut}</span> : null}
+          </button>
+        </React.Fragment>
+      ))}
+    </div>
+  );
+}
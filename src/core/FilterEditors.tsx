@@ -0,0 +1,144 @@
+import React from 'react';
+import type { ColumnDef, ColumnFilter, DateFilter, NumberFilter, SelectFilter, TextFilter, ColorFilter } from '../types';
+import { emptyFilterFor } from './filtering';
+import { themeVar } from './theme';
+import { useI18n } from '../i18n';
+
+type Props = {
+  col: ColumnDef;
+  filter?: ColumnFilter;
+  onChange: (f: ColumnFilter) => void;
+};
+
+const fieldBase: React.CSSProperties = {
+  height: 24,
+  minWidth: 0,
+  flex: 1,
+  background: 'transparent',
+  color: 'inherit',
+  border: `1px solid ${themeVar('inputBorder')}`,
+  borderRadius: 4,
+  padding: '0 4px',
+  fontSize: 12,
+  outline: 'none',
+};
+
+const opBase: React.CSSProperties = { ...fieldBase, flex: 'none', width: 'auto', padding: 0 };
+
+const numOrUndef = (s: string) => (s === '' ? undefined : Number(s));
+
+/** Filterfelt for én kolonne. Operatorene velges ut fra kolonnetypen. */
+export function FilterCell({ col, filter, onChange }: Props) {
+  const f = filter ?? emptyFilterFor(col);
+
+  switch (f.kind) {
+    case 'text':   return <TextFilterField f={f} onChange={onChange} />;
+    case 'number': return <NumberFilterField f={f} onChange={onChange} />;
+    case 'date':   return <DateFilterField f={f} onChange={onChange} />;
+    case 'select': return <SelectFilterField f={f} options={col.options ?? []} onChange={onChange} />;
+    case 'color':  return <ColorFilterField f={f} onChange={onChange} />;
+  }
+}
+
+function TextFilterField({ f, onChange }: { f: TextFilter; onChange: (f: TextFilter) => void }) {
+  const { t } = useI18n();
+  return (
+    <div style={{ display: 'flex', gap: 4 }}>
+      <select style={opBase} value={f.op} onChange={e => onChange({ ...f, op: e.target.value as TextFilter['op'] })} title={t('filter.operator')}>
+        <option value="contains">∋</option>
+        <option value="startsWith">a…</option>
+        <option value="equals">=</option>
+      </select>
+      <input style={fieldBase} value={f.value} placeholder={t('filter.placeholder')} onChange={e => onChange({ ...f, value: e.target.value })} />
+    </div>
+  );
+}
+
+function NumberFilterField({ f, onChange }: { f: NumberFilter; onChange: (f: NumberFilter) => void }) {
+  const { t } = useI18n();
+  return (
+    <div style={{ display: 'flex', gap: 4 }}>
+      <input style={fieldBase} type="number" placeholder={t('filter.min')} value={f.min ?? ''}
+        onChange={e => onChange({ ...f, min: numOrUndef(e.target.value) })} />
+      <input style={fieldBase} type="number" placeholder={t('filter.max')} value={f.max ?? ''}
+        onChange={e => onChange({ ...f, max: numOrUndef(e.target.value) })} />
+    </div>
+  );
+}
+
+function DateFilterField({ f, onChange }: { f: DateFilter; onChange: (f: DateFilter) => void }) {
+  const { t } = useI18n();
+  return (
+    <div style={{ display: 'flex', gap: 4 }}>
+      <select style={opBase} value={f.op} onChange={e => onChange({ ...f, op: e.target.value as DateFilter['op'] })} title={t('filter.operator')}>
+        <option value="between">↔</option>
+        <option value="before">&lt;</option>
+        <option value="after">&gt;</option>
+      </select>
+      {f.op !== 'before' ? (
+        <input style={fieldBase} type="date" value={f.from ?? ''} title={t('filter.from')}
+          onChange={e => onChange({ ...f, from: e.target.value || undefined })} />
+      ) : null}
+      {f.op !== 'after' ? (
+        <input style={fieldBase} type="date" value={f.to ?? ''} title={t('filter.to')}
+          onChange={e => onChange({ ...f, to: e.target.value || undefined })} />
+      ) : null}
+    </div>
+  );
+}
+
+function SelectFilterField({ f, options, onChange }: {
+  f: SelectFilter;
+  options: { value: string; label: string }[];
+  onChange: (f: SelectFilter) => void;
+}) {
+  const { t } = useI18n();
+  const [open, setOpen] = React.useState(false);
+  const toggle = (v: string) =>
+    onChange({ ...f, values: f.values.includes(v) ? f.values.filter(x => x !== v) : [...f.values, v] });
+  const summary = f.values.length === 0 ? t('filter.all') : f.values.length === 1
+    ? (options.find(o => o.value === f.values[0])?.label ?? f.values[0])
+    : t('filter.selected', { count: f.values.length });
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button type="button" style={{ ...fieldBase, width: '100%', textAlign: 'left', cursor: 'pointer' }} onClick={() => setOpen(o => !o)}>
+        {summary}
+      </button>
+      {open ? (
+        <div
+          onMouseLeave={() => setOpen(false)}
+          style={{
+            position: 'absolute', top: 26, left: 0, minWidth: '100%', zIndex: 20,
+            background: themeVar('menuBg'), border: `1px solid ${themeVar('borderV')}`, borderRadius: 4, padding: 4,
+          }}
+        >
+          {options.map(o => (
+            <label key={o.value} style={{ display: 'flex', gap: 6, alignItems: 'center', padding: '2px 4px', whiteSpace: 'nowrap' }}>
+              <input type="checkbox" checked={f.values.includes(o.value)} onChange={() => toggle(o.value)} />
+              {o.label}
+            </label>
+          ))}
+          <label style={{ display: 'flex', gap: 6, alignItems: 'center', padding: '2px 4px', opacity: 0.8 }}>
+            <input type="checkbox" checked={f.values.includes('')} onChange={() => toggle('')} />
+            {t('filter.empty')}
+          </label>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function ColorFilterField({ f, onChange }: { f: ColorFilter; onChange: (f: ColorFilter) => void }) {
+  const { t } = useI18n();
+  return (
+    <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+      <input style={{ ...fieldBase, padding: 0 }} type="color" value={f.value ?? '#000000'}
+        onChange={e => onChange({ ...f, value: e.target.value })} />
+      {f.value ? (
+        <button type="button" style={{ ...opBase, cursor: 'pointer', padding: '0 6px' }} title={t('filter.clear')}
+          onClick={() => onChange({ ...f, value: undefined })}>×</button>
+      ) : null}
+    </div>
+  );
+}
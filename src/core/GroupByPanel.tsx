@@ -0,0 +1,60 @@
+import React from 'react';
+import type { ColumnDef } from '../types';
+import { themeVar } from './theme';
+import { useI18n } from '../i18n';
+
+type Props = {
+  groupBy: string[];
+  columns: ColumnDef[];
+  onChange: (next: string[]) => void;
+  /** Kolonne-id fra en dratt kolonneoverskrift, eller null. */
+  columnFromDrop: (e: React.DragEvent) => string | null;
+};
+
+/** Linje over tabellen: dra kolonneoverskrifter hit for å gruppere; klikk × for å fjerne et nivå. */
+export function GroupByPanel({ groupBy, columns, onChange, columnFromDrop }: Props) {
+  const { t } = useI18n();
+  const [over, setOver] = React.useState(false);
+  const header = (id: string) => columns.find(c => c.id === id)?.header ?? id;
+
+  return (
+    <div
+      data-tc-input
+      onDragOver={(e) => { e.preventDefault(); setOver(true); }}
+      onDragLeave={() => setOver(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setOver(false);
+        const id = columnFromDrop(e);
+        if (id && !groupBy.includes(id)) onChange([...groupBy, id]);
+      }}
+      style={{
+        display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap', minHeight: 30,
+        padding: '4px 8px', fontSize: 12, color: themeVar('rowHeaderFg'),
+        background: over ? themeVar('menuHover') : themeVar('headerBg'), borderBottom: `1px solid ${themeVar('borderH')}`,
+      }}
+    >
+      {groupBy.length ? <span>{t('groupPanel.groupedBy')}</span> : <span>{t('groupPanel.dropHint')}</span>}
+      {groupBy.map((id, i) => (
+        <span
+          key={id}
+          style={{
+            display: 'inline-flex', alignItems: 'center', gap: 4, padding: '1px 6px',
+            border: `1px solid ${themeVar('borderV')}`, borderRadius: 10, color: themeVar('headerFg'), background: themeVar('rowHeaderBg'),
+          }}
+        >
+          {i > 0 ? <span style={{ color: themeVar('mutedFg') }}>›</span> : null}
+          {header(id)}
+          <button
+            type="button"
+            title={t('groupPanel.remove')}
+            onClick={() => onChange(groupBy.filter(g => g !== id))}
+            style={{ background: 'transparent', border: 0, color: themeVar('rowHeaderFg'), cursor: 'pointer', padding: 0, fontSize: 12 }}
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React from 'react';
+import { themeVar } from './theme';
+import { useI18n } from '../i18n';
+
+type Props = {
+  query: string;
+  replacement: string;
+  replaceMode: boolean;
+  canReplace: boolean;
+  hitIndex: number; // -1 = ingen aktiv
+  hitCount: number;
+  focusSignal: number; // økes for å sette fokus i søkefeltet igjen
+  onQueryChange: (q: string) => void;
+  onReplacementChange: (r: string) => void;
+  onToggleReplace: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onReplace: () => void;
+  onReplaceAll: () => void;
+  onClose: () => void;
+};
+
+const fieldBase: React.CSSProperties = {
+  height: 26,
+  width: 180,
+  background: 'transparent',
+  color: 'inherit',
+  border: `1px solid ${themeVar('inputBorder')}`,
+  borderRadius: 4,
+  padding: '0 6px',
+  fontSize: 12,
+  outline: 'none',
+};
+
+const btnBase: React.CSSProperties = {
+  height: 26,
+  minWidth: 26,
+  padding: '0 8px',
+  background: 'transparent',
+  color: 'inherit',
+  border: `1px solid ${themeVar('inputBorder')}`,
+  borderRadius: 4,
+  fontSize: 12,
+  cursor: 'pointer',
+};
+
+/** Søkelinje for Ctrl+F (Enter = neste, Shift+Enter = forrige, Esc = lukk). */
+export function SearchBar(props: Props) {
+  const { t } = useI18n();
+  const inputRef = React.useRef<HTMLInputElement>(null);
+  React.useEffect(() => { inputRef.current?.focus(); inputRef.current?.select(); }, [props.focusSignal]);
+
+  function onSearchKey(e: React.KeyboardEvent) {
+    if (e.key === 'Enter') { e.preventDefault(); e.shiftKey ? props.onPrev() : props.onNext(); }
+    else if (e.key === 'Escape') { e.preventDefault(); props.onClose(); }
+  }
+  function onReplaceKey(e: React.KeyboardEvent) {
+    if (e.key === 'Enter') { e.preventDefault(); (e.ctrlKey || e.metaKey) ? props.onReplaceAll() : props.onReplace(); }
+    else if (e.key === 'Escape') { e.preventDefault(); props.onClose(); }
+  }
+
+  const status = props.hitCount === 0
+    ? (props.query.trim() ? t('search.noHits') : '')
+    : `${props.hitIndex + 1}/${props.hitCount}`;
+
+  return (
+    <div
+      data-tc-input
+      onMouseDown={(e) => e.stopPropagation()}
+      style={{ display: 'flex', flexDirection: 'column', gap: 4, padding: 6, background: themeVar('headerBg'), color: themeVar('headerFg'), borderBottom: `1px solid ${themeVar('borderH')}`, fontSize: 12 }}
+    >
+      <div style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+        {props.canReplace ? (
+          <button type="button" style={btnBase} onClick={props.onToggleReplace} title={t('search.toggleReplace')}>
+            {props.replaceMode ? '▾' : '▸'}
+          </button>
+        ) : null}
+        <input ref={inputRef} style={fieldBase} placeholder={t('search.placeholder')} value={props.query}
+          onChange={e => props.onQueryChange(e.target.value)} onKeyDown={onSearchKey} />
+        <span style={{ minWidth: 70, opacity: 0.8 }}>{status}</span>
+        <button type="button" style={btnBase} onClick={props.onPrev} disabled={!props.hitCount} title={t('search.prev')}>↑</button>
+        <button type="button" style={btnBase} onClick={props.onNext} disabled={!props.hitCount} title={t('search.next')}>↓</button>
+        <button type="button" style={btnBase} onClick={props.onClose} title={t('search.close')}>×</button>
+      </div>
+      {props.canReplace && props.replaceMode ? (
+        <div style={{ display: 'flex', gap: 4, alignItems: 'center', paddingLeft: 30 }}>
+          <input style={fieldBase} placeholder={t('search.replacePlaceholder')} value={props.replacement}
+            onChange={e => props.onReplacementChange(e.target.value)} onKeyDown={onReplaceKey} />
+          <button type="button" style={btnBase} onClick={props.onReplace} disabled={!props.hitCount}>{t('search.replace')}</button>
+          <button type="button" style={btnBase} onClick={props.onReplaceAll} disabled={!props.hitCount} title="Ctrl+Enter">{t('search.replaceAll')}</button>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,8 +1,32 @@
 import React from 'react';
-import type { ColumnDef, Selection, KeyBindings } from '../types';
-import { TextEditor, NumberEditor, DateEditor, SelectEditor, ColorEditor } from './CellEditors';
-import { useClipboard } from './useClipboard';
-import { useUndoRedo, CellChange, HistoryAction } from './useUndoRedo';
+import type { CellError, CellRange, ColumnDef, Selection, TableTheme, ThemeName, Locale, KeyBindings, KeyConflict, TableCommand, CommandContext, RowInsert, SortState, FilterState, ColumnFilter, TableViewState } from '../types';
+import { TextEditor, TextAreaEditor, NumberEditor, DateEditor, SelectEditor, ColorEditor } from './CellEditors';
+import { useClipboard, NATIVE_CLIPBOARD_CHORDS } from './useClipboard';
+import { toCSV, ClipCell } from './clipboardFormat';
+import { resolveKeymap, chordFromEvent, formatChord, isMacPlatform, DEFAULT_KEYMAP } from './keymap';
+import { ContextMenu, ContextMenuItem } from './ContextMenu';
+import { useUndoRedo, CellChange, HistoryAction, HistoryOp, UndoHistory } from './useUndoRedo';
+import { sortRowIds, nextSortState } from './sorting';
+import { filterRowIds, hasActiveFilters, isFilterActive, rowMatchesFilters } from './filtering';
+import { FilterCell } from './FilterEditors';
+import { findHits, cellText, replaceInText, SearchHit } from './search';
+import { SearchBar } from './SearchBar';
+import { extendSeries, repeatValues } from './fill';
+import { ColumnChooser } from './ColumnChooser';
+import { measureTextWidth } from './utils';
+import { computeColumnWindow, buildRowOffsets, findRowAt } from './virtualization';
+import { validateCell, collectErrors } from './cellValidation';
+import { buildGroups, GroupNode } from './grouping';
+import { aggregateRows, computeTreeAggregates } from './aggregation';
+import { FormulaError, isFormula } from './formula';
+import { FormulaEngine } from './formulaEngine';
+import { GroupByPanel } from './GroupByPanel';
+import { useAnnouncer, VISUALLY_HIDDEN } from './useAnnouncer';
+import { cellRendererFor, cellEditorFor } from './cellTypes';
+import { I18nContext, Messages, resolveTranslator, describeError } from '../i18n';
+import { withLocaleFormat, numberEditText, parseNumber, parseDate, isIsoDate } from './formatting';
+import { TableThemeContext, resolveTheme, themeStyles, themeCss, themePrintCss } from './theme';
+import { Rect, EMPTY_SELECTION, rangeToRect, rectContains, rowsIn, colsIn, cellsIn, selectionGrid } from './selection';
 
 export type RowLike = { id: string; [key: string]: any };
 
@@ -10,35 +34,116 @@ export type TableCoreProps = {
   columns: ColumnDef[];
   rows: RowLike[];
   readonly?: boolean;
-  freezeFirstColumn?: boolean;
+  freezeFirstColumn?: boolean; // eldre variant av frozenLeft={1}
+  // Frosne kolonner fra venstre/høyre og rader øverst (startverdier; kan endres fra kolonnemenyen og lagres i viewState)
+  frozenLeft?: number;
+  frozenRight?: number;
+  frozenRows?: number;
   rowHeight?: number;
   bodyHeight?: number;
+  ariaLabel?: string; // tilgjengelig navn på rutenettet (skjermlesere)
+  // Fargetema: navn eller (delvis) tema over det fra TableThemeContext
+  theme?: ThemeName | Partial<TableTheme>;
+  // Språk for tabellens tekster (over I18nContext); messages overstyrer enkeltmeldinger
+  locale?: Locale;
+  messages?: Partial<Messages>;
+  // Markering adressert med rad-/kolonne-id (kontrollert via selection, ellers intern state fra defaultSelection)
   selection?: Selection;
+  defaultSelection?: Selection;
   keymap?: KeyBindings;
+  commands?: TableCommand<RowLike>[];   // egne kommandoer (eller erstatning for innebygde med samme id)
+  onKeymapConflict?: (conflicts: KeyConflict[]) => void;
+  copyFormat?: 'raw' | 'formatted'; // hva Ctrl/Cmd+C legger i text/plain
+
+  // Nye rader (f.eks. lim inn forbi siste rad). createRowDraft gir standardverdier;
+  // limte verdier valideres mot utkastet før onInsertRows kalles.
+  onInsertRows?: (insert: RowInsert<RowLike>) => void; // krever også onDeleteRows (angre av innsetting)
+  onDeleteRows?: (rowIds: string[]) => void; // valgte rader med undertre; angre legger dem tilbake via onInsertRows
+  createRowDraft?: (draft: RowLike) => RowLike;
+  newRowId?: () => string;
+  pasteConfirmThreshold?: number; // spør før så mange nye rader lages (default 50)
   onPatch?: (patch: CellChange) => void;
   onSelectionChange?: (sel: Selection) => void;
   onCommit?: () => void;
+
+  // Angre/gjør om: egen historikk (useUndoRedo) gir appen transaksjoner og canUndo/canRedo
+  history?: UndoHistory;
+  historyLimit?: number;
+  onHistoryChange?: (state: { canUndo: boolean; canRedo: boolean }) => void;
   onReorderRows?: (rowIds: string[]) => void;
   onReorderColumns?: (colIds: string[]) => void;
 
+  // Sortering (kontrollert via sort, ellers intern state fra defaultSort)
+  sort?: SortState;
+  defaultSort?: SortState;
+  onSortChange?: (sort: SortState) => void;
+
+  // Filtrering (kontrollert via filters, ellers intern state fra defaultFilters)
+  filters?: FilterState;
+  defaultFilters?: FilterState;
+  onFiltersChange?: (filters: FilterState) => void;
+  showFilterRow?: boolean;
+
+  // Gruppering på kolonner (kontrollert via groupBy, ellers intern state fra defaultGroupBy).
+  // Grupperader viser kolonnenes aggregate. showGroupPanel viser slippsonen over tabellen.
+  groupBy?: string[];
+  defaultGroupBy?: string[];
+  onGroupByChange?: (groupBy: string[]) => void;
+  showGroupPanel?: boolean;
+
+  // Visningsoppsett (rekkefølge, bredder, skjulte/frosne kolonner, sortering, filtre, ekspanderte noder, gruppering).
+  // Endringer i viewState tas inn; brukerens endringer meldes via onViewStateChange.
+  viewState?: TableViewState;
+  onViewStateChange?: (viewState: TableViewState) => void;
+
+  // Validering: 'block' avviser ugyldige verdier, 'flag' lagrer dem og markerer cella
+  validationMode?: 'block' | 'flag';
+  onValidationChange?: (errors: CellError[]) => void;
+
   // Tree/summary
   treeMode?: boolean;
   showSummaries?: boolean;
   getParentId?: (row: RowLike) => string | null;
+  // Feltet forelderen lagres i når tabellen skriver den (dupliser, rykk inn/ut); standard 'parentId'.
+  // Egen getParentId må lese det samme feltet.
+  parentKey?: string;
   getRowType?: (row: RowLike) => 'data' | 'summary';
+  // Fastlåst totalrad nederst med kolonnenes aggregate over filtrerte løvrader
+  showTotals?: boolean;
+
+  // Formler (ColumnDef.formula): radkoden som kan brukes i referanser som [A1].qty (default row.code)
+  getRowCode?: (row: RowLike) => string | undefined;
+};
+
+/**
+ * Imperativt håndtak (ref) for komponenter ved siden av tabellen, f.eks. Gantt eller valideringspanel.
+ * Rader som ligger i lukkede noder/grupper åpnes først; kallene virker når raden er synlig.
+ */
+export type TableCoreHandle = {
+  // Disse gir false (og gjør ingenting) når raden ikke finnes eller er filtrert bort
+  scrollToRow: (rowId: string) => boolean;              // uten å endre markeringen
+  focusCell: (rowId: string, colId: string) => boolean; // markerer cella og gir tabellen fokus
+  startEdit: (rowId: string, colId: string) => boolean; // som focusCell, og åpner editoren hvis cella kan redigeres
+  getSelection: () => Selection;
+  expandTo: (rowId: string) => void;                    // åpner forfedre og grupper rundt raden
+  commitPendingEdit: () => boolean;                     // false hvis verdien ble avvist (validationMode 'block')
 };
 
 type EditingCell = { rowId: string; colId: string; draft: any };
-type Rect = { r0: number; r1: number; c0: number; c1: number };
 
 type VisibleRow = {
   row: RowLike;
   level: number;
   hasChildren: boolean;
   isSummary: boolean;
+  group?: { colId: string; label: string; count: number }; // virtuell grupperad (isSummary = true)
 };
 
 const PARENT_COL_ID = 'parentId';
+const GROUP_DRAG_TYPE = 'application/x-tc-col'; // kolonne-id ved dra til grupperingspanelet
+const DEFAULT_COL_WIDTH = 160;
+const MIN_COL_WIDTH = 40;
+const MAX_AUTOFIT_WIDTH = 600;
 
 // Transparent/flat editor slik at det ikke blir "dobbel" markering
 const editorCss = `
@@ -58,34 +163,141 @@ const editorCss = `
   }
 `;
 
-export default function TableCore(props: TableCoreProps) {
+function TableCore(props: TableCoreProps, ref: React.ForwardedRef<TableCoreHandle>) {
   const {
-    columns, rows, readonly,
+    rows, readonly,
     freezeFirstColumn = true,
     rowHeight = 32,
     bodyHeight = 420,
     treeMode = false,
     showSummaries = true,
-    getParentId = (r: RowLike) => (r.parentId ?? null),
+    parentKey = PARENT_COL_ID,
+    getParentId = (r: RowLike) => (r[parentKey] ?? null),
     getRowType = (_r: RowLike) => 'data',
+    validationMode = 'block',
+    copyFormat = 'raw',
+    newRowId = () => crypto.randomUUID(),
+    pasteConfirmThreshold = 50,
   } = props;
 
+  const contextTheme = React.useContext(TableThemeContext);
+  const theme = React.useMemo(() => resolveTheme(props.theme, contextTheme), [props.theme, contextTheme]);
+  const t = React.useMemo(() => themeStyles(theme), [theme]);
+  const contextI18n = React.useContext(I18nContext);
+  const i18n = React.useMemo(
+    () => resolveTranslator(props.locale, props.messages, contextI18n),
+    [props.locale, props.messages, contextI18n],
+  );
+  const tr = i18n.t;
+  // Tall og datoer vises og tolkes på tabellens språk, med mindre kolonnen har egen format/parse
+  const columns = React.useMemo(
+    () => props.columns.map(c => withLocaleFormat(c, i18n.locale)),
+    [props.columns, i18n.locale],
+  );
+
   // Orden
-  const [colOrder, setColOrder] = React.useState(() => columns.map(c => c.id));
+  const mergeColOrder = (prev: string[]) => {
+    const inc = columns.map(c => c.id);
+    return [...prev.filter(id => inc.includes(id)), ...inc.filter(id => !prev.includes(id))];
+  };
+  const [colOrder, setColOrder] = React.useState(() => mergeColOrder(props.viewState?.columnOrder ?? []));
   const [rowOrder, setRowOrder] = React.useState(() => rows.map(r => r.id));
   React.useEffect(() => {
-    const inc = columns.map(c => c.id);
-    setColOrder(prev => [...prev.filter(id => inc.includes(id)), ...inc.filter(id => !prev.includes(id))]);
+    setColOrder(mergeColOrder);
   }, [columns]);
   React.useEffect(() => {
     const inc = rows.map(r => r.id);
-    setRowOrder(prev => [...prev.filter(id => inc.includes(id)), ...inc.filter(id => !prev.includes(id))]);
+    setRowOrder(prev => {
+      // Behold egen rekkefølge; nye rader plasseres etter raden foran dem i rows
+      const incSet = new Set(inc), prevSet = new Set(prev);
+      const next = prev.filter(id => incSet.has(id));
+      inc.forEach((id, i) => {
+        if (prevSet.has(id)) return;
+        next.splice(i > 0 ? next.indexOf(inc[i - 1]) + 1 : 0, 0, id);
+      });
+      return next;
+    });
   }, [rows]);
 
-  const allCols = colOrder.map(id => columns.find(c => c.id === id)!).filter(Boolean);
+  // Kolonnebredder, skjulte og frosne kolonner
+  const [colWidths, setColWidths] = React.useState<Record<string, number>>(() => props.viewState?.columnWidths ?? {});
+  const [hiddenCols, setHiddenCols] = React.useState<string[]>(() => props.viewState?.hiddenColumns ?? []);
+  const [frozenCount, setFrozenCount] = React.useState<number>(
+    () => props.viewState?.frozenColumns ?? props.frozenLeft ?? (freezeFirstColumn ? 1 : 0),
+  );
+  const [frozenRightCount, setFrozenRightCount] = React.useState<number>(
+    () => props.viewState?.frozenRightColumns ?? props.frozenRight ?? 0,
+  );
+  const [frozenRowCount, setFrozenRowCount] = React.useState<number>(
+    () => props.viewState?.frozenRows ?? props.frozenRows ?? 0,
+  );
+  function setFreeze(patch: { left?: number; right?: number; rows?: number }) {
+    if (patch.left !== undefined) setFrozenCount(patch.left);
+    if (patch.right !== undefined) setFrozenRightCount(patch.right);
+    if (patch.rows !== undefined) setFrozenRowCount(patch.rows);
+    emitView({
+      ...(patch.left !== undefined ? { frozenColumns: patch.left } : {}),
+      ...(patch.right !== undefined ? { frozenRightColumns: patch.right } : {}),
+      ...(patch.rows !== undefined ? { frozenRows: patch.rows } : {}),
+    });
+  }
+
+  const colById = React.useMemo(() => new Map(columns.map(c => [c.id, c])), [columns]);
+  const orderedCols = React.useMemo(() => colOrder.map(id => colById.get(id)!).filter(Boolean), [colOrder, colById]);
+  const allCols = React.useMemo(() => orderedCols.filter(c => !hiddenCols.includes(c.id)), [orderedCols, hiddenCols]);
+  const widthOf = (c: ColumnDef) => colWidths[c.id] ?? c.width ?? DEFAULT_COL_WIDTH;
+
+  // Sortering
+  const [innerSort, setInnerSort] = React.useState<SortState>(() => props.defaultSort ?? []);
+  const sort = props.sort ?? innerSort;
+  function updateSort(next: SortState) {
+    if (props.sort === undefined) setInnerSort(next);
+    props.onSortChange?.(next);
+    emitView({ sort: next });
+  }
+  function onSortClick(e: React.MouseEvent, col: ColumnDef) {
+    e.stopPropagation();
+    if (col.sortable === false || suppressHeaderClickRef.current) return;
+    updateSort(nextSortState(sort, col.id, e.shiftKey));
+  }
+
+  // Filtrering
+  const [innerFilters, setInnerFilters] = React.useState<FilterState>(() => props.defaultFilters ?? {});
+  const filters = props.filters ?? innerFilters;
+  const filtering = hasActiveFilters(filters);
+  function setColumnFilter(colId: string, f: ColumnFilter) {
+    const next = { ...filters, [colId]: f };
+    if (props.filters === undefined) setInnerFilters(next);
+    props.onFiltersChange?.(next);
+    emitView({ filters: next });
+  }
+
+  // Gruppering (kontrollert via groupBy, ellers intern state fra defaultGroupBy / viewState)
+  const [innerGroupBy, setInnerGroupBy] = React.useState<string[]>(() => props.viewState?.groupBy ?? props.defaultGroupBy ?? []);
+  const groupBy = React.useMemo(
+    () => (props.groupBy ?? innerGroupBy).filter(id => colById.has(id)),
+    [props.groupBy, innerGroupBy, colById],
+  );
+  const grouping = groupBy.length > 0;
+  function updateGroupBy(next: string[]) {
+    if (props.groupBy === undefined) setInnerGroupBy(next);
+    props.onGroupByChange?.(next);
+    emitView({ groupBy: next });
+  }
+  // Lukkede grupper lagres i visningen sammen med groupBy
+  const [collapsedGroups, setCollapsedGroups] = React.useState<Set<string>>(() => new Set(props.viewState?.collapsedGroups));
+  function applyCollapsedGroups(next: Set<string>) {
+    setCollapsedGroups(next);
+    emitView({ collapsedGroups: [...next] });
+  }
+  const toggleGroup = (key: string) => {
+    const n = new Set(collapsedGroups);
+    n.has(key) ? n.delete(key) : n.add(key);
+    applyCollapsedGroups(n);
+  };
 
   // Tree build
-  const idToRow = React.useMemo(() => {
+  const rawIdToRow = React.useMemo(() => {
     const m = new Map<string, RowLike>();
     for (const r of rows) m.set(r.id, r);
     return m;
@@ -104,34 +316,201 @@ export default function TableCore(props: TableCoreProps) {
       arr.push(id); m.set(p, arr);
     }
     for (const id of rowOrder) {
-      const r = idToRow.get(id); if (!r) continue;
+      const r = rawIdToRow.get(id); if (!r) continue;
       add(getParentId(r), id);
     }
     return m;
-  }, [rowOrder, idToRow, getParentId]);
+  }, [rowOrder, rawIdToRow, getParentId]);
+
+  // Formelceller beregnes inkrementelt; motoren lever like lenge som tabellen.
+  // getRowCode leses via ref, så motoren bruker alltid den siste funksjonen fra props
+  const formulaEngine = React.useRef<FormulaEngine | null>(null);
+  const getRowCodeRef = React.useRef(props.getRowCode);
+  getRowCodeRef.current = props.getRowCode;
+  const hasFormulas = columns.some(c => c.formula);
+  const formulaValues = React.useMemo(() => {
+    if (!hasFormulas) return null;
+    formulaEngine.current ??= new FormulaEngine(r => (getRowCodeRef.current ? getRowCodeRef.current(r) : r.code));
+    return formulaEngine.current.update(rows, rowOrder, columns);
+  }, [hasFormulas, rows, rowOrder, columns]);
+  const evalIdToRow = React.useMemo(() => {
+    if (!formulaValues?.size) return rawIdToRow;
+    const m = new Map(rawIdToRow);
+    formulaValues.forEach((values, id) => { const r = m.get(id); if (r) m.set(id, { ...r, ...values }); });
+    return m;
+  }, [rawIdToRow, formulaValues]);
+  // Rå verdi (f.eks. formelteksten) – det som redigeres, kopieres og lagres i angre-historikken
+  const rawValue = (rowId: string, colId: string) => rawIdToRow.get(rowId)?.[colId];
+
+  // Beregnede verdier (ColumnDef.aggregate) for oppsummeringsrader og, i tremodus, foreldrerader.
+  // Resten av tabellen ser radene med formelresultater og beregnede verdier flettet inn.
+  const computed = React.useMemo(
+    () => computeTreeAggregates(columns, evalIdToRow, childrenOf, r => getRowType(r) === 'summary', treeMode),
+    [columns, evalIdToRow, childrenOf, getRowType, treeMode],
+  );
+  const idToRow = React.useMemo(() => {
+    if (!computed.size) return evalIdToRow;
+    const m = new Map(evalIdToRow);
+    computed.forEach((values, id) => { const r = m.get(id); if (r) m.set(id, { ...r, ...values }); });
+    return m;
+  }, [evalIdToRow, computed]);
+  const hasDataChildren = (id: string) => (childrenOf.get(id) ?? []).some(k => getRowType(rawIdToRow.get(k)!) !== 'summary');
+  const isComputedCell = (rowId: string, colId: string) => !!computed.get(rowId) && colId in computed.get(rowId)!;
+  // Kan cella redigeres? (kolonnens editable og ikke beregnet)
+  const canEditCell = (col: ColumnDef, row: RowLike) =>
+    !(col.editable && !col.editable(row)) && !isComputedCell(row.id, col.id);
 
+  // Nye foreldre ekspanderes automatisk; kjente foreldre beholder sin tilstand
+  const knownParentsRef = React.useRef<Set<string>>(new Set());
   const [expanded, setExpanded] = React.useState<Set<string>>(() => {
     const s = new Set<string>();
     for (const id of rowOrder) {
-      if ((childrenOf.get(id)?.length ?? 0) > 0) s.add(id);
+      if ((childrenOf.get(id)?.length ?? 0) > 0) {
+        knownParentsRef.current.add(id);
+        if (!props.viewState?.expanded || props.viewState.expanded.includes(id)) s.add(id);
+      }
     }
     return s;
   });
   React.useEffect(() => {
+    const fresh = rowOrder.filter(id => (childrenOf.get(id)?.length ?? 0) > 0 && !knownParentsRef.current.has(id));
+    if (!fresh.length) return;
+    fresh.forEach(id => knownParentsRef.current.add(id));
     setExpanded(prev => {
       const n = new Set(prev);
-      for (const id of rowOrder) if ((childrenOf.get(id)?.length ?? 0) > 0) n.add(id);
+      fresh.forEach(id => n.add(id));
       return n;
     });
   }, [rowOrder, childrenOf]);
 
+  function applyExpanded(next: Set<string>) {
+    setExpanded(next);
+    emitView({ expanded: [...next] });
+  }
   const toggleExpand = (id: string) => {
-    setExpanded(prev => { const n = new Set(prev); n.has(id) ? n.delete(id) : n.add(id); return n; });
+    const n = new Set(expanded);
+    n.has(id) ? n.delete(id) : n.add(id);
+    applyExpanded(n);
   };
+  const isOpen = (v: VisibleRow) => (v.group ? !collapsedGroups.has(v.row.id) || hitGroups.has(v.row.id) : isExpanded(v.row.id));
+  const toggleRow = (v: VisibleRow) => (v.group ? toggleGroup(v.row.id) : toggleExpand(v.row.id));
 
-  const visible: VisibleRow[] = React.useMemo(() => {
+  // Ta inn nytt visningsoppsett fra appen
+  React.useEffect(() => {
+    const vs = props.viewState;
+    if (!vs) return;
+    if (vs.columnOrder) setColOrder(mergeColOrder(vs.columnOrder));
+    if (vs.columnWidths) setColWidths(vs.columnWidths);
+    if (vs.hiddenColumns) setHiddenCols(vs.hiddenColumns);
+    if (vs.frozenColumns !== undefined) setFrozenCount(vs.frozenColumns);
+    if (vs.frozenRightColumns !== undefined) setFrozenRightCount(vs.frozenRightColumns);
+    if (vs.frozenRows !== undefined) setFrozenRowCount(vs.frozenRows);
+    if (vs.sort) setInnerSort(vs.sort);
+    if (vs.filters) setInnerFilters(vs.filters);
+    if (vs.expanded) setExpanded(new Set(vs.expanded));
+    if (vs.groupBy) setInnerGroupBy(vs.groupBy);
+    if (vs.collapsedGroups) setCollapsedGroups(new Set(vs.collapsedGroups));
+  }, [props.viewState]);
+
+  function currentViewState(): TableViewState {
+    return {
+      columnOrder: colOrder,
+      columnWidths: colWidths,
+      hiddenColumns: hiddenCols,
+      frozenColumns: frozenCount,
+      frozenRightColumns: frozenRightCount,
+      frozenRows: frozenRowCount,
+      sort,
+      filters,
+      expanded: [...expanded],
+      groupBy,
+      collapsedGroups: [...collapsedGroups],
+    };
+  }
+  function emitView(patch: Partial<TableViewState>) {
+    props.onViewStateChange?.({ ...currentViewState(), ...patch });
+  }
+
+  const isSummaryRow = React.useCallback((r: RowLike) => getRowType(r) === 'summary', [getRowType]);
+
+  // Søsken sorteres innenfor hver parent, slik at hierarkiet beholdes
+  const sortedChildrenOf = React.useMemo(() => {
+    if (!sort.length) return childrenOf;
+    const m = new Map<string | null, string[]>();
+    childrenOf.forEach((ids, p) => m.set(p, sortRowIds(ids, idToRow, sort, colById, isSummaryRow)));
+    return m;
+  }, [childrenOf, idToRow, sort, colById, isSummaryRow]);
+
+  // Rader som overlever filtrene (i tre-modus inkl. forfedre til treff)
+  const included = React.useMemo(() => {
+    if (!filtering) return null;
+    return filterRowIds(
+      rowOrder,
+      idToRow,
+      id => (treeMode ? parentOf.get(id) ?? null : null),
+      r => rowMatchesFilters(filters, colById, r),
+      isSummaryRow,
+    );
+  }, [filtering, filters, rowOrder, idToRow, parentOf, treeMode, colById, isSummaryRow]);
+
+  // Alle rader i visningsrekkefølge, uavhengig av kollaps (brukes av søk)
+  const orderedIds = React.useMemo(() => {
+    if (!treeMode) {
+      return sortRowIds(rowOrder, idToRow, sort, colById, isSummaryRow).filter(id => !included || included.has(id));
+    }
+    const out: string[] = [];
+    const seen = new Set<string>();
+    function walk(id: string) {
+      if (seen.has(id)) return;
+      seen.add(id); out.push(id);
+      for (const k of sortedChildrenOf.get(id) ?? []) if (!included || included.has(k)) walk(k);
+    }
+    for (const rid of sortedChildrenOf.get(null) ?? []) if (!included || included.has(rid)) walk(rid);
+    return out;
+  }, [treeMode, rowOrder, idToRow, sort, colById, isSummaryRow, included, sortedChildrenOf]);
+
+  // Søk / erstatt
+  const [searchOpen, setSearchOpen] = React.useState(false);
+  const [searchFocus, setSearchFocus] = React.useState(0);
+  const [query, setQuery] = React.useState('');
+  const [replacement, setReplacement] = React.useState('');
+  const [replaceMode, setReplaceMode] = React.useState(false);
+  const [hitIdx, setHitIdx] = React.useState(-1);
+
+  const hits = React.useMemo(
+    () => (searchOpen ? findHits(query, orderedIds, idToRow, allCols) : []),
+    [searchOpen, query, orderedIds, idToRow, allCols],
+  );
+  // Mens søket er åpent holdes forfedrene til treff åpne, så treffene og de synlige radene stemmer.
+  // Det lagres ikke i visningen; bare treffet man går til (goToCell) åpnes for godt
+  const openForHits = React.useMemo(() => {
+    const open = new Set<string>();
+    if (!treeMode) return open;
+    for (const h of hits) {
+      let p = parentOf.get(h.rowId) ?? null;
+      while (p && !open.has(p)) { open.add(p); p = parentOf.get(p) ?? null; }
+    }
+    return open;
+  }, [hits, treeMode, parentOf]);
+  const isExpanded = (id: string) => expanded.has(id) || openForHits.has(id);
+
+  function expandAncestors(rowId: string) {
+    const missing = new Set<string>();
+    let p = treeMode ? parentOf.get(rowId) ?? null : null;
+    while (p && !missing.has(p)) {
+      if (!expanded.has(p)) missing.add(p);
+      p = parentOf.get(p) ?? null;
+    }
+    // Lukkede grupper som inneholder raden åpnes også
+    const groups = groupKeysOf.get(rowId)?.filter(k => collapsedGroups.has(k)) ?? [];
+    if (groups.length) applyCollapsedGroups(new Set([...collapsedGroups].filter(k => !groups.includes(k))));
+    if (!missing.size) return;
+    applyExpanded(new Set([...expanded, ...missing]));
+  }
+
+  const treeVisible: VisibleRow[] = React.useMemo(() => {
     if (!treeMode) {
-      return rowOrder
+      return orderedIds
         .map(id => idToRow.get(id))
         .filter(Boolean)
         .map(r => ({ row: r!, level: 0, hasChildren: false, isSummary: getRowType(r!) === 'summary' }))
@@ -140,67 +519,300 @@ export default function TableCore(props: TableCoreProps) {
     const out: VisibleRow[] = [];
     function walk(id: string, level: number) {
       const r = idToRow.get(id); if (!r) return;
-      const kids = childrenOf.get(id) ?? [];
+      const kids = (sortedChildrenOf.get(id) ?? []).filter(k => !included || included.has(k));
       const isSummary = getRowType(r) === 'summary';
       const hasChildren = kids.length > 0;
       if (!(isSummary && !showSummaries)) out.push({ row: r, level, hasChildren, isSummary });
-      if (hasChildren && expanded.has(id)) for (const k of kids) walk(k, level + 1);
+      if (hasChildren && isExpanded(id)) for (const k of kids) walk(k, level + 1);
     }
-    const roots = childrenOf.get(null) ?? [];
+    const roots = (sortedChildrenOf.get(null) ?? []).filter(k => !included || included.has(k));
     for (const rid of roots) walk(rid, 0);
     return out;
-  }, [treeMode, rowOrder, idToRow, childrenOf, expanded, getRowType, showSummaries]);
+  }, [treeMode, orderedIds, idToRow, sortedChildrenOf, expanded, openForHits, getRowType, showSummaries, included]);
+
+  // Grupper: rader som deler gruppe beholder hierarkiet seg imellom (nærmeste forfar i samme gruppe).
+  // Oppsummeringsrader følger sin forelder.
+  const groupTree = React.useMemo(() => {
+    if (!grouping) return null;
+    const keyRowOf = (id: string) => {
+      let r = idToRow.get(id);
+      while (r && isSummaryRow(r)) r = idToRow.get(parentOf.get(r.id) ?? '');
+      return r;
+    };
+    const ids = orderedIds.filter(id => showSummaries || !isSummaryRow(idToRow.get(id)!));
+    return buildGroups(ids, idToRow, groupBy.map(id => colById.get(id)!), sort, keyRowOf, tr('grid.emptyGroup'));
+  }, [grouping, groupBy, orderedIds, idToRow, parentOf, isSummaryRow, showSummaries, colById, sort, tr]);
+
+  const groupKeysOf = React.useMemo(() => {
+    const m = new Map<string, string[]>();
+    const walk = (g: GroupNode, path: string[]) => {
+      const p = [...path, g.key];
+      if (g.children) g.children.forEach(c => walk(c, p));
+      else g.rowIds.forEach(id => m.set(id, p));
+    };
+    groupTree?.forEach(g => walk(g, []));
+    return m;
+  }, [groupTree]);
+
+  // Grupper med treff holdes også åpne mens søket er åpent
+  const hitGroups = React.useMemo(() => new Set(hits.flatMap(h => groupKeysOf.get(h.rowId) ?? [])), [hits, groupKeysOf]);
+
+  const visible: VisibleRow[] = React.useMemo(() => {
+    if (!groupTree) return treeVisible;
+    const out: VisibleRow[] = [];
+    // Aggreger over datarader uten barn, så foreldre ikke telles dobbelt
+    const leafRows = (ids: string[]) => ids
+      .map(id => idToRow.get(id)!)
+      .filter(r => !isSummaryRow(r) && !(treeMode && hasDataChildren(r.id)));
+    function emitMembers(ids: string[], base: number) {
+      const members = new Set(ids);
+      const levelOf = new Map<string, number>();
+      const hidden = new Set<string>();
+      ids.forEach((id, i) => {
+        let p = treeMode ? parentOf.get(id) ?? null : null;
+        while (p && !members.has(p)) p = parentOf.get(p) ?? null;
+        const level = p ? (levelOf.get(p) ?? base) + 1 : base;
+        levelOf.set(id, level);
+        if (p && (hidden.has(p) || !isExpanded(p))) { hidden.add(id); return; }
+        const next = ids[i + 1];
+        let q = next && treeMode ? parentOf.get(next) ?? null : null;
+        while (q && !members.has(q)) q = parentOf.get(q) ?? null;
+        const r = idToRow.get(id)!;
+        out.push({ row: r, level, hasChildren: q === id, isSummary: isSummaryRow(r) });
+      });
+    }
+    function emitGroup(g: GroupNode) {
+      const dataCount = g.rowIds.filter(id => !isSummaryRow(idToRow.get(id)!)).length;
+      out.push({
+        row: { id: g.key, ...aggregateRows(columns, leafRows(g.rowIds)) },
+        level: g.depth,
+        hasChildren: true,
+        isSummary: true,
+        group: { colId: g.colId, label: g.label, count: dataCount },
+      });
+      if (collapsedGroups.has(g.key) && !hitGroups.has(g.key)) return;
+      if (g.children) g.children.forEach(emitGroup);
+      else emitMembers(g.rowIds, g.depth + 1);
+    }
+    groupTree.forEach(emitGroup);
+    return out;
+  }, [groupTree, treeVisible, idToRow, isSummaryRow, treeMode, childrenOf, parentOf, expanded, openForHits, collapsedGroups, hitGroups, columns]);
+
+  const totals = React.useMemo(() => {
+    if (!props.showTotals) return null;
+    const leaves = orderedIds
+      .map(id => idToRow.get(id)!)
+      .filter(r => !isSummaryRow(r) && !(treeMode && hasDataChildren(r.id)));
+    return aggregateRows(columns, leaves);
+  }, [props.showTotals, orderedIds, idToRow, isSummaryRow, treeMode, childrenOf, columns]);
+  const footerHeight = totals ? rowHeight : 0;
 
   // UI-state
   const [editing, setEditing] = React.useState<EditingCell | null>(null);
-  const [rect, setRect] = React.useState<Rect | null>(null);
-  const [anchor, setAnchor] = React.useState<{ r: number; c: number } | null>(null);
+  const [innerSelection, setInnerSelection] = React.useState<Selection>(() => props.defaultSelection ?? EMPTY_SELECTION);
+  const selection = props.selection ?? innerSelection;
   const [isDraggingRange, setIsDraggingRange] = React.useState(false);
   const dragStartRef = React.useRef<{ x: number; y: number; r: number; c: number } | null>(null);
   const [scrollTop, setScrollTop] = React.useState(0);
+  const [scrollLeft, setScrollLeft] = React.useState(0);
+  const [viewportWidth, setViewportWidth] = React.useState(0);
+  const [headHeight, setHeadHeight] = React.useState(0);
   const [dragRowIdx, setDragRowIdx] = React.useState<number | null>(null);
   const [dragColIdx, setDragColIdx] = React.useState<number | null>(null);
   const rootRef = React.useRef<HTMLDivElement>(null);
   const bodyRef = React.useRef<HTMLDivElement>(null);
-  const history = useUndoRedo();
+  const headRef = React.useRef<HTMLDivElement>(null);
+  const { message: announcement, announce } = useAnnouncer();
+  const innerHistory = useUndoRedo({ limit: props.historyLimit });
+  const history = props.history ?? innerHistory;
+  React.useLayoutEffect(() => {
+    history.attach({ forward: applyActionForward, inverse: applyActionInverse });
+  });
+  React.useEffect(() => {
+    props.onHistoryChange?.({ canUndo: history.canUndo, canRedo: history.canRedo });
+  }, [history.canUndo, history.canRedo]);
 
-  // Virtualisering
+  // Virtualisering. Med wrap-kolonner måles hver rad, og en offset-indeks
+  // erstatter scrollTop / rowHeight; ellers har alle rader fast høyde.
   const rowCount = visible.length;
   const colCount = allCols.length;
-  const startIdx = Math.max(0, Math.floor(scrollTop / rowHeight) - 6);
-  const visibleCount = Math.ceil(bodyHeight / rowHeight) + 12;
-  const endIdx = Math.min(rowCount - 1, startIdx + visibleCount - 1);
-  const padTop = startIdx * rowHeight;
-  const padBottom = Math.max(0, (rowCount - endIdx - 1) * rowHeight);
+  const variableHeights = allCols.some(c => c.wrap);
+  const measuredHeights = React.useRef(new Map<string, number>());
+  const [heightsVersion, setHeightsVersion] = React.useState(0);
+  const heightsFrame = React.useRef<number | null>(null);
+  function measureRow(rowId: string, el: HTMLDivElement | null) {
+    if (!el) return;
+    const h = el.offsetHeight;
+    if (measuredHeights.current.get(rowId) === h) return;
+    measuredHeights.current.set(rowId, h);
+    if (heightsFrame.current === null) {
+      heightsFrame.current = requestAnimationFrame(() => {
+        heightsFrame.current = null;
+        setHeightsVersion(v => v + 1);
+      });
+    }
+  }
+  React.useEffect(() => () => { if (heightsFrame.current !== null) cancelAnimationFrame(heightsFrame.current); }, []);
+  const rowOffsets = React.useMemo(
+    () => buildRowOffsets(rowCount, i => (variableHeights ? measuredHeights.current.get(visible[i].row.id) ?? rowHeight : rowHeight)),
+    [rowCount, visible, variableHeights, rowHeight, heightsVersion],
+  );
+  const heightOfRow = (i: number) => rowOffsets[i + 1] - rowOffsets[i];
+  // Frosne rader rendres i den sticky headeren; resten av radene måles fra bodyBase
+  const nFrozenRows = Math.min(frozenRowCount, rowCount);
+  const bodyBase = rowOffsets[nFrozenRows] ?? 0;
+  const startIdx = Math.max(nFrozenRows, findRowAt(rowOffsets, bodyBase + scrollTop) - 6);
+  const endIdx = Math.min(rowCount - 1, findRowAt(rowOffsets, bodyBase + scrollTop + bodyHeight) + 6);
+  const padTop = (rowOffsets[startIdx] ?? bodyBase) - bodyBase;
+  const padBottom = Math.max(0, rowOffsets[rowCount] - (rowOffsets[endIdx + 1] ?? rowOffsets[rowCount]));
   const windowRows = visible.slice(startIdx, endIdx + 1);
 
-  // Seleksjon
+  // Header/filterrad ligger sticky i scroll-containeren; høyden trengs for scroll-beregning
+  React.useEffect(() => {
+    const body = bodyRef.current, head = headRef.current;
+    if (!body || !head) return;
+    const measure = () => {
+      setViewportWidth(body.clientWidth);
+      setHeadHeight(head.offsetHeight);
+    };
+    measure();
+    const ro = new ResizeObserver(measure);
+    ro.observe(body);
+    ro.observe(head);
+    return () => ro.disconnect();
+  }, []);
+
+  const hitKeys = React.useMemo(() => new Set(hits.map(h => `${h.rowId}:${h.colId}`)), [hits]);
+  const currentHit = hitIdx >= 0 ? hits[hitIdx] : undefined;
+  React.useEffect(() => { setHitIdx(-1); }, [query]);
+  React.useEffect(() => { setHitIdx(i => Math.min(i, hits.length - 1)); }, [hits.length]);
+
+  function openSearch() {
+    setSearchOpen(true);
+    setSearchFocus(n => n + 1);
+  }
+  function closeSearch() {
+    setSearchOpen(false);
+    focusRoot();
+  }
+  function stepHit(delta: number) {
+    if (!hits.length) return;
+    const next = hitIdx < 0
+      ? (delta > 0 ? 0 : hits.length - 1)
+      : (hitIdx + delta + hits.length) % hits.length;
+    setHitIdx(next);
+    goToCell(hits[next].rowId, hits[next].colId);
+  }
+  function replaceHits(targets: SearchHit[]) {
+    if (readonly || !props.onPatch || !query.trim()) return;
+    const changes: CellChange[] = [];
+    for (const h of targets) {
+      const row = idToRow.get(h.rowId);
+      const col = colById.get(h.colId);
+      if (!row || !col || isSummaryRow(row)) continue;
+      if (!canEditCell(col, row) || isFormula(rawValue(row.id, col.id))) continue; // formler erstattes ikke
+      const next = replacedValue(col, row);
+      if (!next || rejects(col, row, next.value)) continue;
+      const old = row[col.id];
+      if (old !== next.value) changes.push({ rowId: row.id, colId: col.id, oldValue: old, nextValue: next.value });
+    }
+    commitAction({ changes }); // én angre-operasjon for hele erstatningen
+  }
+  // Tekst erstattes i råverdien; valg, tall og datoer i det som vises, og bare hvis resultatet er
+  // et gyldig valg/tall/dato – visningsteksten skrives aldri som verdi
+  function replacedValue(col: ColumnDef, row: RowLike): { value: any } | undefined {
+    const replaced = (text: string) => replaceInText(text, query, replacement);
+    switch (col.type) {
+      case 'select': {
+        const label = replaced(cellText(col, row)).trim().toLocaleLowerCase();
+        const option = (col.options ?? []).find(o => o.label.toLocaleLowerCase() === label || o.value.toLocaleLowerCase() === label);
+        return option ? { value: option.value } : undefined;
+      }
+      case 'number': {
+        const value = parseText(col, replaced(cellText(col, row)));
+        return value === undefined || (typeof value === 'number' && isFinite(value)) ? { value } : undefined;
+      }
+      case 'date': {
+        const value = parseText(col, replaced(cellText(col, row)));
+        return value === undefined || isIsoDate(value) ? { value } : undefined;
+      }
+      default: {
+        const raw = row[col.id];
+        return raw == null ? undefined : { value: replaced(String(raw)) };
+      }
+    }
+  }
+  function replaceCurrent() {
+    if (!currentHit) { stepHit(1); return; }
+    replaceHits([currentHit]);
+  }
+
+  // Seleksjon: områder med rad-/kolonne-id regnes om til indekser for gjeldende visning.
+  // rect er det aktive (siste) området; kommandoer som kopier, slett og fyll bruker alle.
+  const rowIndexById = React.useMemo(() => new Map(visible.map((v, i) => [v.row.id, i])), [visible]);
+  const colIndexById = React.useMemo(() => new Map(allCols.map((c, i) => [c.id, i])), [allCols]);
+  const rects = React.useMemo(
+    () => selection.ranges
+      .map(range => rangeToRect(range, rowIndexById, colIndexById, rowCount, colCount))
+      .filter((r): r is Rect => !!r),
+    [selection, rowIndexById, colIndexById, rowCount, colCount],
+  );
+  const rect: Rect | null = rects[rects.length - 1] ?? null;
+  const activeCell = selection.active
+    && rowIndexById.has(selection.active.rowId) && colIndexById.has(selection.active.colId)
+    ? { r: rowIndexById.get(selection.active.rowId)!, c: colIndexById.get(selection.active.colId)! }
+    : rect ? { r: rect.r0, c: rect.c0 } : null;
+
   const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
-  function setSingle(r: number, c: number) {
-    const rIdx = clamp(r, 0, rowCount - 1);
-    const cIdx = clamp(c, 0, colCount - 1);
-    setAnchor({ r: rIdx, c: cIdx });
-    setRect({ r0: rIdx, r1: rIdx, c0: cIdx, c1: cIdx });
-    props.onSelectionChange?.({ rows: [rIdx], cols: [cIdx] });
+  const rowIdAt = (r: number) => visible[clamp(r, 0, rowCount - 1)].row.id;
+  const colIdAt = (c: number) => allCols[clamp(c, 0, colCount - 1)].id;
+  function commitSelection(next: Selection) {
+    if (props.selection === undefined) setInnerSelection(next);
+    props.onSelectionChange?.(next);
   }
-  function setRange(r: number, c: number) {
-    if (!anchor) return setSingle(r, c);
-    const rIdx = clamp(r, 0, rowCount - 1);
-    const cIdx = clamp(c, 0, colCount - 1);
-    const r0 = Math.min(anchor.r, rIdx);
-    const r1 = Math.max(anchor.r, rIdx);
-    const c0 = Math.min(anchor.c, cIdx);
-    const c1 = Math.max(anchor.c, cIdx);
-    setRect({ r0, r1, c0, c1 });
-    props.onSelectionChange?.({
-      rows: Array.from({ length: r1 - r0 + 1 }, (_, i) => r0 + i),
-      cols: Array.from({ length: c1 - c0 + 1 }, (_, i) => c0 + i)
+  /** Erstatt (eller legg til, med add) området; r/c-verdier utenfor tabellen klemmes inn. */
+  function selectRect(
+    target: Rect,
+    opts: { add?: boolean; replaceLast?: boolean; wholeRows?: boolean; wholeCols?: boolean; active?: { r: number; c: number } } = {},
+  ) {
+    if (!rowCount || !colCount) return;
+    const range: CellRange = {
+      rows: opts.wholeCols ? undefined : [rowIdAt(target.r0), rowIdAt(target.r1)],
+      cols: opts.wholeRows ? undefined : [colIdAt(target.c0), colIdAt(target.c1)],
+    };
+    const at = opts.active ?? { r: target.r0, c: target.c0 };
+    commitSelection({
+      ranges: opts.add ? [...selection.ranges, range]
+        : opts.replaceLast ? [...selection.ranges.slice(0, -1), range]
+        : [range],
+      active: { rowId: rowIdAt(at.r), colId: colIdAt(at.c) },
     });
   }
-  const isSel = (r: number, c: number) => !!rect && r >= rect.r0 && r <= rect.r1 && c >= rect.c0 && c <= rect.c1;
+  function setSingle(r: number, c: number, add = false) {
+    selectRect({ r0: r, r1: r, c0: c, c1: c }, { add });
+  }
+  // Utvid det aktive området fra markøren til (r, c); hele rader/kolonner forblir hele
+  function setRange(r: number, c: number) {
+    if (!activeCell || !selection.ranges.length) return setSingle(r, c);
+    const last = selection.ranges[selection.ranges.length - 1];
+    const rows = clamp(r, 0, rowCount - 1), cols = clamp(c, 0, colCount - 1);
+    const range: CellRange = {
+      rows: last.rows ? [rowIdAt(activeCell.r), rowIdAt(rows)] : undefined,
+      cols: last.cols ? [colIdAt(activeCell.c), colIdAt(cols)] : undefined,
+    };
+    commitSelection({ ranges: [...selection.ranges.slice(0, -1), range], active: selection.active });
+  }
+  function selectRows(r0: number, r1: number, add = false) {
+    selectRect({ r0: Math.min(r0, r1), r1: Math.max(r0, r1), c0: 0, c1: colCount - 1 }, { add, wholeRows: true, active: { r: r0, c: activeCell?.c ?? 0 } });
+  }
+  function selectCols(c0: number, c1: number, add = false) {
+    selectRect({ r0: 0, r1: rowCount - 1, c0: Math.min(c0, c1), c1: Math.max(c0, c1) }, { add, wholeCols: true, active: { r: activeCell?.r ?? 0, c: c0 } });
+  }
+  const isSel = (r: number, c: number) => rects.some(rc => rectContains(rc, r, c));
 
   // Fokus sikres: klikk inne i grid gir fokus til root
-  const focusRoot = () => rootRef.current?.focus();
+  // Fokus ligger på rutenettet (scroll-containeren); aktiv celle meldes via aria-activedescendant
+  const focusRoot = () => bodyRef.current?.focus({ preventScroll: true });
   React.useEffect(() => {
     function onMouseUp(e: MouseEvent) {
       const st = dragStartRef.current;
@@ -221,101 +833,443 @@ export default function TableCore(props: TableCoreProps) {
     if (readonly) return;
     const v = visible[rIdxAbs]; if (!v || v.isSummary) return;
     const row = v.row; const col = allCols[cIdx]; if (!row || !col) return;
-    const editable = col.editable ? !!col.editable(row) : true;
-    if (!editable) return;
-    setEditing({ rowId: row.id, colId: col.id, draft: row[col.id] });
-  }
-  function commitEdit() {
-    if (!editing) return;
-    const { rowId, colId, draft } = editing;
-    const row = rows.find(r => r.id === rowId);
-    if (!row) { setEditing(null); return; }
-    const old = row[colId];
-    if (props.onPatch && old !== draft) props.onPatch({ rowId, colId, oldValue: old, nextValue: draft });
-    history.push({ changes: [{ rowId, colId, oldValue: old, nextValue: draft }] });
-    props.onCommit?.();
+    if (!canEditCell(col, row)) return;
+    setEditError(null);
+    setEditing({ rowId: row.id, colId: col.id, draft: rawValue(row.id, col.id) });
+  }
+  // next: verdi fra en egen editor som lagrer direkte (commit(v)), før utkastet er oppdatert
+  function commitEdit(next?: { draft: any }): boolean {
+    if (!editing) return true;
+    const row = idToRow.get(editing.rowId);
+    const col = colById.get(editing.colId);
+    if (!row || !col) { setEditing(null); return true; }
+    const { rowId, colId } = editing;
+    // Formelkolonner redigeres som tekst; vanlige verdier tolkes etter kolonnetypen
+    const value = next ? next.draft : editing.draft;
+    const draft = col.formula && typeof value === 'string' ? parseText(col, value) : value;
+    // Formelkilde valideres ikke (som i rejects); resultatet valideres via errors etter beregning
+    const err = isFormula(draft) ? undefined : validateCell(col, row, draft);
+    if (err && validationMode === 'block') {
+      // Editoren blir stående til verdien er gyldig eller redigeringen avbrytes, med den avviste verdien som utkast
+      if (next) setEditing(e => e && { ...e, draft: value });
+      const error = describeError(err, tr);
+      setEditError(error);
+      announce(tr('edit.invalid', { column: col.header, error }));
+      return false;
+    }
+    const old = rawValue(rowId, colId);
+    // Raske redigeringer av samme celle blir én angre-operasjon
+    if (old !== draft) {
+      commitAction({ changes: [{ rowId, colId, oldValue: old, nextValue: draft }] }, `edit:${rowId}:${colId}`);
+      announce(err
+        ? tr('edit.savedWithError', { column: col.header, error: describeError(err, tr) })
+        : tr('edit.saved', { column: col.header }));
+    }
+    setEditError(null);
     setEditing(null);
+    return true;
+  }
+  function cancelEdit() { setEditError(null); setEditing(null); }
+
+  // Validering
+  const [editError, setEditError] = React.useState<string | null>(null);
+  // Formler valideres på resultatet (via errors) etter beregning
+  const rejects = (col: ColumnDef, row: RowLike, value: any) =>
+    validationMode === 'block' && !isFormula(value) && !!validateCell(col, row, value);
+  const errors = React.useMemo(
+    () => collectErrors(rows.map(r => evalIdToRow.get(r.id) ?? r), columns, isSummaryRow, err => describeError(err, tr)),
+    [rows, evalIdToRow, columns, isSummaryRow, tr],
+  );
+  const errorByCell = React.useMemo(() => new Map(errors.map(e => [`${e.rowId}:${e.colId}`, e.message])), [errors]);
+  const rowErrorCount = React.useMemo(() => {
+    const m = new Map<string, number>();
+    for (const e of errors) m.set(e.rowId, (m.get(e.rowId) ?? 0) + 1);
+    return m;
+  }, [errors]);
+  const errorsSignature = React.useRef('');
+  React.useEffect(() => {
+    const sig = errors.map(e => `${e.rowId}:${e.colId}:${e.message}`).join('|');
+    if (sig === errorsSignature.current) return;
+    errorsSignature.current = sig;
+    props.onValidationChange?.(errors);
+  }, [errors]);
+  // F8 / Shift+F8: neste/forrige feil i visningsrekkefølge
+  function stepError(delta: number) {
+    const ordered: CellError[] = [];
+    for (const id of orderedIds) for (const col of allCols) {
+      const message = errorByCell.get(`${id}:${col.id}`);
+      if (message) ordered.push({ rowId: id, colId: col.id, message });
+    }
+    if (!ordered.length) return;
+    const cur = rect ? visible[rect.r0] : undefined;
+    const curPos = cur ? orderedIds.indexOf(cur.row.id) * colCount + rect!.c0 : -1;
+    const posOf = (e: CellError) => orderedIds.indexOf(e.rowId) * colCount + allCols.findIndex(c => c.id === e.colId);
+    const target = delta > 0
+      ? ordered.find(e => posOf(e) > curPos) ?? ordered[0]
+      : [...ordered].reverse().find(e => posOf(e) < curPos) ?? ordered[ordered.length - 1];
+    goToCell(target.rowId, target.colId);
   }
-  function cancelEdit() { setEditing(null); }
-  function renderEditor(col: ColumnDef, draft: any, setDraft: (v: any) => void) {
-    const common = { value: draft, autoFocus: true, onChange: setDraft, onEnter: commitEdit, onEscape: cancelEdit, onBlur: commitEdit };
+  function renderEditor(col: ColumnDef, row: RowLike, draft: any, setDraft: (v: any) => void) {
+    const Editor = cellEditorFor(col);
+    if (Editor && !col.formula) {
+      const commit = (...value: [] | [any]) => commitEdit(value.length ? { draft: value[0] } : undefined);
+      return (
+        <div className="tc-editor" onMouseDown={(e) => e.stopPropagation()}>
+          <Editor value={draft} onChange={setDraft} commit={commit} cancel={cancelEdit} row={row} column={col} error={editError} />
+        </div>
+      );
+    }
+    const common = { value: draft, autoFocus: true, onChange: setDraft, onEnter: () => commitEdit(), onEscape: cancelEdit, onBlur: () => commitEdit() };
+    if (col.formula) return <div className="tc-editor"><TextEditor {...common} /></div>;
     switch (col.type) {
-      case 'number': return <div className="tc-editor"><NumberEditor {...common} /></div>;
+      case 'number': return <div className="tc-editor"><NumberEditor {...common} toText={v => numberEditText(v, i18n.locale, col.numberFormat)} parse={text => parseText(col, text)} /></div>;
       case 'date':   return <div className="tc-editor"><DateEditor {...common} /></div>;
       case 'select': return <div className="tc-editor"><SelectEditor {...common} options={col.options ?? []} /></div>;
       case 'color':  return <div className="tc-editor"><ColorEditor {...common} /></div>;
+      case 'text':   return <div className="tc-editor">{col.wrap ? <TextAreaEditor {...common} /> : <TextEditor {...common} />}</div>;
       default:       return <div className="tc-editor"><TextEditor {...common} /></div>;
     }
   }
 
   // Clipboard/Undo
-  const doCopy = React.useCallback(() => {
-    if (!rect) return '';
-    const out: string[] = [];
-    for (let r = rect.r0; r <= rect.r1; r++) {
+  // Rå verdier (default) eller slik de vises (ColumnDef.format); HTML-varianten bærer alltid rå verdi
+  // Flere områder kopieres som én matrise over radene/kolonnene de dekker; umarkerte kryss blir tomme
+  const doCopy = React.useCallback((formatted = copyFormat === 'formatted'): ClipCell[][] | undefined => {
+    if (!rects.length) return undefined;
+    const grid = selectionGrid(rects);
+    const out: ClipCell[][] = [];
+    for (const r of grid.rows) {
       const row = visible[r].row;
-      const line: string[] = [];
-      for (let c = rect.c0; c <= rect.c1; c++) {
+      const line: ClipCell[] = [];
+      for (const c of grid.cols) {
+        if (!grid.has(r, c)) { line.push({ text: '', value: '' }); continue; }
         const col = allCols[c];
         const val = row[col.id];
-        line.push(val == null ? '' : String(val));
+        const raw = val == null ? '' : String(val);
+        // Formler følger med i HTML-varianten, så de kan limes inn igjen i tabellen
+        const source = rawValue(row.id, col.id);
+        const value = isFormula(source) ? source : raw;
+        line.push(formatted ? { text: cellText(col, row), value } : { text: raw, value });
       }
-      out.push(line.join('\t'));
+      out.push(line);
     }
-    return out.join('\n');
-  }, [rect, visible, allCols]);
+    return out;
+  }, [rects, visible, allCols, copyFormat, rawIdToRow]); // rawValue leser rawIdToRow
 
-  const doPaste = React.useCallback((data2D: string[][]) => {
-    if (!rect || !props.onPatch) return;
+  // Eksport: samme matrise som kopier, slik cellene vises, med kolonnetitler øverst
+  function exportSelection() {
+    if (!rects.length) return;
+    const grid = selectionGrid(rects);
+    const matrix = [
+      grid.cols.map(c => allCols[c].header),
+      ...grid.rows.map(r => grid.cols.map(c => (grid.has(r, c) ? cellText(allCols[c], visible[r].row) : ''))),
+    ];
+    // BOM så Excel leser UTF-8 (æøå) riktig
+    const blob = new Blob(['\uFEFF' + toCSV(matrix)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = tr('export.fileName');
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  function doPaste(data2D: string[][]) {
+    if (!rect || !props.onPatch || readonly) return;
     const changes: CellChange[] = [];
-    const maxR = Math.min(rect.r0 + data2D.length - 1, rowCount - 1);
+    let skipped = 0;
+    // Linjene legges på datarader fra første markerte rad; oppsummerings- og grupperader hoppes over
+    const targets: number[] = [];
+    for (let r = rect.r0; r < rowCount && targets.length < data2D.length; r++) if (!visible[r].isSummary) targets.push(r);
     const maxC = Math.min(rect.c0 + (data2D[0]?.length ?? 1) - 1, colCount - 1);
-    for (let r = rect.r0; r <= maxR; r++) {
+    targets.forEach((r, i) => {
       const row = visible[r].row;
-      const line = data2D[r - rect.r0] ?? [];
+      const line = data2D[i] ?? [];
       for (let c = rect.c0; c <= maxC; c++) {
         const txt = line[c - rect.c0] ?? '';
         const col = allCols[c];
-        const parsed = col.parse ? col.parse(txt) : coerce(col.type, txt);
-        const old = row[col.id];
-        if (col.validate) {
-          const err = col.validate(parsed, row);
-          if (err instanceof Error) continue;
-        }
-        if (old !== parsed) {
-          const ch: CellChange = { rowId: row.id, colId: col.id, oldValue: old, nextValue: parsed };
-          props.onPatch(ch);
-          changes.push(ch);
-        }
+        if (!canEditCell(col, row)) { skipped++; continue; }
+        const parsed = parseText(col, txt);
+        const old = rawValue(row.id, col.id);
+        if (rejects(col, row, parsed)) { skipped++; continue; }
+        if (old !== parsed) changes.push({ rowId: row.id, colId: col.id, oldValue: old, nextValue: parsed });
+      }
+    });
+
+    // Linjer utover siste datarad blir nye rader (hvis appen tar imot dem); ellers meldes de som ikke limt inn
+    const overflow = data2D.slice(targets.length);
+    const insert = overflow.length ? pasteAsNewRows(overflow, rect.c0, maxC) : null;
+    const dropped = insert ? 0 : overflow.length;
+    announce([
+      tr('paste.cells', { count: changes.length }),
+      insert ? tr('paste.newRows', { count: insert.rows.length }) : '',
+      skipped ? tr('paste.skipped', { count: skipped }) : '',
+      dropped ? tr('paste.droppedLines', { count: dropped }) : '',
+    ].filter(Boolean).join(', '));
+    if (!changes.length && !insert) return;
+    commitAction({ changes, ops: insert ? [{ kind: 'insert', insert }] : undefined });
+  }
+
+  function pasteAsNewRows(lines: string[][], c0: number, c1: number): RowInsert<RowLike> | null {
+    if (!canInsertRows) return null;
+    if (lines.length > pasteConfirmThreshold
+      && !window.confirm(tr('paste.confirmNewRows', { count: lines.length }))) return null;
+    // Nye rader får samme forelder som siste synlige datarad, men plasseres etter dataens rekkefølge
+    // (rowOrder), ikke visningens: sist i forelderens undertre, eller sist i tabellen. Sortering plasserer dem videre.
+    const last = [...visible].reverse().find(v => !v.isSummary)?.row;
+    const parentId = treeMode && last ? (parentOf.get(last.id) ?? null) : undefined;
+    const within = parentId ? new Set(descendantsOf(parentId)) : null;
+    const anchor = within ? ([...rowOrder].reverse().find(id => within.has(id)) ?? parentId) : rowOrder[rowOrder.length - 1];
+    const drafts = lines.map(line => {
+      const base: RowLike = { id: newRowId() };
+      let draft = props.createRowDraft ? { ...props.createRowDraft(base), id: base.id } : base;
+      for (let c = c0; c <= c1; c++) {
+        const col = allCols[c];
+        const parsed = parseText(col, line[c - c0] ?? '');
+        if (col.editable && !col.editable(draft)) continue;
+        if (rejects(col, draft, parsed)) continue;
+        draft = { ...draft, [col.id]: parsed };
       }
+      return draft;
+    });
+    return { rows: drafts, afterRowId: anchor ?? null, parentId, source: 'paste' };
+  }
+
+  // Radoperasjoner: sett inn, dupliser og slett (med undertre)
+  const selectedDataRows = () => rowsIn(rects).map(r => visible[r]).filter(v => !v.isSummary).map(v => v.row);
+  // Innsetting og sletting er hverandres angre, så begge krever begge callbackene
+  const canInsertRows = !readonly && !!props.onInsertRows && !!props.onDeleteRows;
+  const canDeleteRows = canInsertRows;
+  function descendantsOf(id: string): string[] {
+    const out: string[] = [];
+    if (!treeMode) return out;
+    const walk = (pid: string) => {
+      for (const cid of childrenOf.get(pid) ?? []) { out.push(cid); walk(cid); }
+    };
+    walk(id);
+    return out;
+  }
+  // Bare øverste valgte rader; etterkommere følger med likevel
+  function selectionRoots(): RowLike[] {
+    const sel = selectedDataRows();
+    if (!treeMode) return sel;
+    const ids = new Set(sel.map(r => r.id));
+    return sel.filter(r => {
+      let p = parentOf.get(r.id) ?? null;
+      while (p) { if (ids.has(p)) return false; p = parentOf.get(p) ?? null; }
+      return true;
+    });
+  }
+  function draftRow(): RowLike {
+    const base: RowLike = { id: newRowId() };
+    return props.createRowDraft ? { ...props.createRowDraft(base), id: base.id } : base;
+  }
+  function runRowInserts(inserts: RowInsert<RowLike>[]) {
+    if (!inserts.length || !props.onInsertRows) return;
+    commitAction({ changes: [], ops: inserts.map(insert => ({ kind: 'insert' as const, insert })) });
+  }
+  function insertRow(where: 'above' | 'below' | 'child') {
+    if (!canInsertRows) return;
+    const sel = selectedDataRows();
+    const target = where === 'above' ? sel[0] : sel[sel.length - 1];
+    const draft = draftRow();
+    if (!target) {
+      runRowInserts([{ rows: [draft], afterRowId: rowOrder[rowOrder.length - 1] ?? null, parentId: treeMode ? null : undefined, source: 'insert' }]);
+    } else if (where === 'child') {
+      if (!treeMode) return;
+      const family = [target.id, ...descendantsOf(target.id)];
+      const afterRowId = rowOrder.filter(id => family.includes(id)).pop() ?? target.id;
+      if (!expanded.has(target.id)) applyExpanded(new Set(expanded).add(target.id));
+      runRowInserts([{ rows: [draft], afterRowId, parentId: target.id, source: 'insert' }]);
+    } else {
+      const idx = rowOrder.indexOf(target.id);
+      const afterRowId = where === 'below' ? target.id : (idx > 0 ? rowOrder[idx - 1] : null);
+      const parentId = treeMode ? (parentOf.get(target.id) ?? null) : undefined;
+      runRowInserts([{ rows: [draft], afterRowId, parentId, source: 'insert' }]);
     }
-    if (changes.length) { history.push({ changes }); props.onCommit?.(); }
-  }, [rect, props.onPatch, props.onCommit, visible, allCols, colCount, rowCount, history]);
+    goToCell(draft.id, allCols[rect?.c0 ?? 0]?.id ?? allCols[0]?.id);
+  }
+  function duplicateRows() {
+    if (!canInsertRows) return;
+    const inserts: RowInsert<RowLike>[] = [];
+    for (const root of selectionRoots()) {
+      const family = new Set([root.id, ...descendantsOf(root.id)]);
+      const ids = rowOrder.filter(id => family.has(id));
+      const newIds = new Map(ids.map(id => [id, newRowId()]));
+      const rootParent = parentOf.get(root.id) ?? null;
+      // Kopien tas av rådataene: formelkilden og egne verdier, ikke beregnede summer/resultater
+      const clones = ids.map(id => {
+        const src = rawIdToRow.get(id)!;
+        const parent = parentOf.get(id) ?? null;
+        const clone: RowLike = { ...src, id: newIds.get(id)! };
+        if (treeMode) clone[parentKey] = id === root.id ? rootParent : newIds.get(parent!) ?? parent;
+        return clone;
+      });
+      inserts.push({ rows: clones, afterRowId: ids[ids.length - 1], parentId: treeMode ? rootParent : undefined, source: 'duplicate' });
+    }
+    runRowInserts(inserts);
+  }
+  // Sammenhengende løp i radrekkefølgen, hvert med raden foran som anker; radene slik de ligger i dataene
+  function restoreInsertsFor(ids: Set<string>): RowInsert<RowLike>[] {
+    const out: RowInsert<RowLike>[] = [];
+    let run: RowInsert<RowLike> | null = null;
+    rowOrder.forEach((id, i) => {
+      if (!ids.has(id)) { run = null; return; }
+      if (!run) {
+        run = { rows: [], afterRowId: i > 0 ? rowOrder[i - 1] : null, source: 'undo' };
+        out.push(run);
+      }
+      run.rows.push({ ...rawIdToRow.get(id)! });
+    });
+    return out;
+  }
+  function deleteRows() {
+    if (!canDeleteRows) return;
+    const roots = selectionRoots();
+    if (!roots.length) return;
+    const ids = new Set<string>();
+    for (const r of roots) { ids.add(r.id); descendantsOf(r.id).forEach(id => ids.add(id)); }
+    const extra = ids.size - roots.length;
+    const msg = extra
+      ? tr('rows.confirmDeleteWithChildren', { count: roots.length, extra })
+      : tr('rows.confirmDelete', { count: roots.length });
+    if (!window.confirm(msg)) return;
+    commitAction({ changes: [], ops: [{ kind: 'delete', restore: restoreInsertsFor(ids) }] });
+  }
+
+  // Kontekstmeny (høyreklikk på celle eller #)
+  const [contextMenu, setContextMenu] = React.useState<{ x: number; y: number } | null>(null);
+  function onRowContextMenu(e: React.MouseEvent, rAbs: number, cIdx: number) {
+    e.preventDefault();
+    focusRoot();
+    const inside = rects.some(rc => cIdx < 0 ? rAbs >= rc.r0 && rAbs <= rc.r1 : rectContains(rc, rAbs, cIdx));
+    if (!inside) setSingle(rAbs, Math.max(0, cIdx));
+    setContextMenu({ x: e.clientX, y: e.clientY });
+  }
 
-  const { onKeyDown: onClipboardKeys, onPaste, onCopy } = useClipboard({
-    onCopyText: doCopy,
+  const clipboard = useClipboard({
+    isActive: () => {
+      const el = document.activeElement;
+      return !editing && !!el && !!rootRef.current?.contains(el) && !el.closest('[data-tc-input]');
+    },
+    getCopyCells: doCopy,
     onPasteMatrix: doPaste,
-    onUndo: () => { const a = history.undo(); if (a) applyActionInverse(a); },
-    onRedo: () => { const a = history.redo(); if (a) applyActionForward(a); },
+    onCut: clearSelectionWithDelete, // én angre-operasjon
   });
+  // Ombundne taster går via Async Clipboard API, som kan mangle (http) eller bli nektet
+  const viaClipboard = (action: () => Promise<boolean>) => {
+    const failed = () => announce(tr('clipboard.failed'));
+    action().then(ok => { if (!ok) failed(); }, failed);
+  };
+  const undo = () => history.undo();
+  const redo = () => history.redo();
 
-  // Delete/Navigasjon + Tree-hotkeys (med Capture & fokus fikser)
-  function clearSelectionWithDelete() {
-    if (!rect || !props.onPatch) return;
+  // Autofill: fyllhåndtak (rekker) og Ctrl+D / Ctrl+R (kopi)
+  const [fillTarget, setFillTarget] = React.useState<Rect | null>(null);
+  function fillRect(src: Rect, dst: Rect, mode: 'series' | 'copy') {
+    if (readonly || !props.onPatch) return;
+    const extend = mode === 'series' ? extendSeries : repeatValues;
     const changes: CellChange[] = [];
-    for (let r = rect.r0; r <= rect.r1; r++) {
-      const row = visible[r].row;
-      for (let c = rect.c0; c <= rect.c1; c++) {
+    const put = (r: number, c: number, value: any) => {
+      const v = visible[r]; const col = allCols[c];
+      if (!v || !col || v.isSummary) return;
+      const row = v.row;
+      if (!canEditCell(col, row)) return;
+      if (rejects(col, row, value)) return;
+      const old = rawValue(row.id, col.id);
+      if (old !== value) changes.push({ rowId: row.id, colId: col.id, oldValue: old, nextValue: value });
+    };
+
+    // Målene listes i fyllretningen; rekken går bare videre på celler som kan få en verdi,
+    // så oppsummeringsrader (og kolonner av annen type) hoppes over uten å forskyve den
+    if (dst.r0 < src.r0 || dst.r1 > src.r1) {
+      const down = dst.r1 > src.r1;
+      const targets: number[] = [];
+      if (down) { for (let r = src.r1 + 1; r <= dst.r1; r++) if (!visible[r]?.isSummary) targets.push(r); }
+      else { for (let r = src.r0 - 1; r >= dst.r0; r--) if (!visible[r]?.isSummary) targets.push(r); }
+      for (let c = src.c0; c <= src.c1; c++) {
         const col = allCols[c];
-        const old = row[col.id];
-        const next = emptyFor(col.type);
-        if (old !== next) {
-          props.onPatch({ rowId: row.id, colId: col.id, oldValue: old, nextValue: next });
-          changes.push({ rowId: row.id, colId: col.id, oldValue: old, nextValue: next });
-        }
+        const source: any[] = [];
+        for (let r = src.r0; r <= src.r1; r++) if (!visible[r].isSummary) source.push(rawValue(visible[r].row.id, col.id));
+        if (!down) source.reverse();
+        extend(source, targets.length, down ? 1 : -1).forEach((val, i) => put(targets[i], c, val));
+      }
+    } else if (dst.c0 < src.c0 || dst.c1 > src.c1) {
+      const right = dst.c1 > src.c1;
+      const srcTypes = new Set(allCols.slice(src.c0, src.c1 + 1).map(c => c.type));
+      // Bare fyll på tvers av kolonner med samme type
+      if (srcTypes.size !== 1) return;
+      const sameType = (c: number) => !!allCols[c] && srcTypes.has(allCols[c].type);
+      const targets: number[] = [];
+      if (right) { for (let c = src.c1 + 1; c <= dst.c1; c++) if (sameType(c)) targets.push(c); }
+      else { for (let c = src.c0 - 1; c >= dst.c0; c--) if (sameType(c)) targets.push(c); }
+      for (let r = src.r0; r <= src.r1; r++) {
+        const row = visible[r].row;
+        const source = allCols.slice(src.c0, src.c1 + 1).map(c => rawValue(row.id, c.id));
+        if (!right) source.reverse();
+        extend(source, targets.length, right ? 1 : -1).forEach((val, i) => put(r, targets[i], val));
       }
     }
-    if (changes.length) { history.push({ changes }); props.onCommit?.(); }
+
+    if (changes.length) commitAction({ changes });
+  }
+  // Ctrl+D/Ctrl+R fyller hvert markerte område for seg, som én angre-operasjon
+  function fillDown() {
+    history.transaction(() => rects.forEach(rc => {
+      const src = rc.r0 === rc.r1 ? { ...rc, r0: rc.r0 - 1, r1: rc.r0 - 1 } : { ...rc, r1: rc.r0 };
+      if (src.r0 >= 0) fillRect(src, { ...rc, r0: src.r0 }, 'copy');
+    }));
+  }
+  function fillRight() {
+    history.transaction(() => rects.forEach(rc => {
+      const src = rc.c0 === rc.c1 ? { ...rc, c0: rc.c0 - 1, c1: rc.c0 - 1 } : { ...rc, c1: rc.c0 };
+      if (src.c0 >= 0) fillRect(src, { ...rc, c0: src.c0 }, 'copy');
+    }));
+  }
+  function fillTargetFor(r: number, c: number): Rect | null {
+    if (!rect) return null;
+    const dr = r < rect.r0 ? r - rect.r0 : r > rect.r1 ? r - rect.r1 : 0;
+    const dc = c < rect.c0 ? c - rect.c0 : c > rect.c1 ? c - rect.c1 : 0;
+    if (dr !== 0 && Math.abs(dr) >= Math.abs(dc)) return dr < 0 ? { ...rect, r0: r } : { ...rect, r1: r };
+    if (dc !== 0) return dc < 0 ? { ...rect, c0: c } : { ...rect, c1: c };
+    return rect;
+  }
+  function onFillHandleMouseDown(e: React.MouseEvent) {
+    e.preventDefault();
+    e.stopPropagation();
+    focusRoot();
+    setFillTarget(rect);
+  }
+  React.useEffect(() => {
+    if (!fillTarget) return;
+    function onMouseUp() {
+      if (rect && fillTarget) {
+        fillRect(rect, fillTarget, 'series');
+        selectRect(fillTarget, { replaceLast: true, active: activeCell ?? undefined });
+      }
+      setFillTarget(null);
+    }
+    window.addEventListener('mouseup', onMouseUp);
+    return () => window.removeEventListener('mouseup', onMouseUp);
+  }, [fillTarget, rect]);
+  const inFillPreview = (r: number, c: number) =>
+    !!fillTarget && r >= fillTarget.r0 && r <= fillTarget.r1 && c >= fillTarget.c0 && c <= fillTarget.c1 && !isSel(r, c);
+
+  // Delete/Navigasjon + Tree-hotkeys (med Capture & fokus fikser)
+  function clearSelectionWithDelete() {
+    if (!rects.length || !props.onPatch || readonly) return;
+    const changes: CellChange[] = [];
+    for (const { r, c } of cellsIn(rects)) {
+      const v = visible[r];
+      if (!v || v.isSummary) continue;
+      const row = v.row;
+      const col = allCols[c];
+      if (!canEditCell(col, row)) continue;
+      const old = rawValue(row.id, col.id);
+      const next = emptyFor(col.type);
+      if (old !== next) changes.push({ rowId: row.id, colId: col.id, oldValue: old, nextValue: next });
+    }
+    if (changes.length) commitAction({ changes });
   }
 
   function moveCursor(dr: number, dc: number) {
@@ -323,84 +1277,357 @@ export default function TableCore(props: TableCoreProps) {
     const r = clamp((dr >= 0 ? rect.r1 : rect.r0) + dr, 0, rowCount - 1);
     const c = clamp((dc >= 0 ? rect.c1 : rect.c0) + dc, 0, colCount - 1);
     setSingle(r, c);
-    const y = r * rowHeight;
-    const body = bodyRef.current!;
+    scrollCellIntoView(r, c);
+  }
+  function scrollRowIntoView(r: number) {
+    if (r < nFrozenRows) return; // alltid synlig
+    const y = (rowOffsets[r] ?? 0) - bodyBase;
+    const h = heightOfRow(r) || rowHeight;
+    const body = bodyRef.current;
+    if (!body) return;
     if (y < body.scrollTop) body.scrollTop = y;
-    else if (y + rowHeight > body.scrollTop + body.clientHeight) body.scrollTop = y - body.clientHeight + rowHeight;
+    else if (headHeight + y + h + footerHeight > body.scrollTop + body.clientHeight) body.scrollTop = headHeight + y + h + footerHeight - body.clientHeight;
+  }
+  function scrollColIntoView(c: number) {
+    const body = bodyRef.current;
+    if (!body || c >= allCols.length || isFrozenCol(c)) return;
+    const x = colLefts[c], w = widthOf(allCols[c]);
+    const right = body.clientWidth - frozenRightWidth; // synlig høyrekant for ufrosne kolonner
+    if (x < body.scrollLeft + frozenLeftEnd) body.scrollLeft = x - frozenLeftEnd;
+    else if (x + w > body.scrollLeft + right) body.scrollLeft = x + w - right;
+  }
+  function scrollCellIntoView(r: number, c: number) {
+    scrollRowIntoView(r);
+    scrollColIntoView(c);
   }
 
-  function handleKeyDownCapture(e: React.KeyboardEvent<HTMLDivElement>) {
-  onClipboardKeys(e);
-  if (e.defaultPrevented) return;
+  // Hopp til celle via id – ekspanderer forfedre og grupper, og fokuserer etter neste render
+  // (da er også nye rader fra onInsertRows med). Er raden fortsatt ikke synlig (filtrert bort,
+  // ukjent), droppes forespørselen, så den ikke stjeler fokus senere.
+  // Uten colId rulles bare raden fram (markeringen beholdes).
+  const [pendingFocus, setPendingFocus] = React.useState<{ rowId: string; colId?: string; edit?: boolean } | null>(null);
+  function goToCell(rowId: string, colId: string, opts: { edit?: boolean } = {}) {
+    expandAncestors(rowId);
+    setPendingFocus({ rowId, colId, ...opts });
+  }
+  function revealRow(rowId: string) {
+    expandAncestors(rowId);
+    setPendingFocus({ rowId });
+  }
+  React.useEffect(() => {
+    if (!pendingFocus) return;
+    setPendingFocus(null);
+    const r = visible.findIndex(v => v.row.id === pendingFocus.rowId);
+    if (r < 0) return;
+    if (pendingFocus.colId === undefined) {
+      scrollRowIntoView(r);
+    } else {
+      const c = allCols.findIndex(col => col.id === pendingFocus.colId);
+      if (c < 0) return;
+      setSingle(r, c);
+      scrollCellIntoView(r, c);
+      if (pendingFocus.edit) startEdit(r, c);
+    }
+  }, [pendingFocus, visible]);
 
-  const isMac = /(Mac|iPhone|iPod|iPad)/i.test(navigator.platform);
-  const ctrlOrCmd = isMac ? e.metaKey : e.ctrlKey;
+  // Håndtaket avviser rader utenfor modellen (ukjent eller filtrert bort) i stedet for å la dem vente
+  const inModel = (rowId: string) => orderedIds.includes(rowId);
+  React.useImperativeHandle(ref, () => ({
+    scrollToRow: (rowId) => {
+      if (!inModel(rowId)) return false;
+      revealRow(rowId);
+      return true;
+    },
+    focusCell: (rowId, colId) => {
+      if (!inModel(rowId) || !colById.has(colId)) return false;
+      focusRoot();
+      goToCell(rowId, colId);
+      return true;
+    },
+    startEdit: (rowId, colId) => {
+      if (!inModel(rowId) || !colById.has(colId)) return false;
+      focusRoot();
+      goToCell(rowId, colId, { edit: true });
+      return true;
+    },
+    getSelection: () => selection,
+    expandTo: expandAncestors,
+    commitPendingEdit: () => commitEdit(),
+  }));
 
-  // Finn "aktiv rad" uansett kolonne – og også mens vi redigerer
-  const activeRowIdx = (() => {
+  // Kommandoregister: innebygde kommandoer + appens egne, bundet via keymap
+  type InternalCommand = TableCommand<RowLike> & { when?: () => boolean };
+  const isMac = React.useMemo(isMacPlatform, []);
+  // "Aktiv rad" uansett kolonne – også mens vi redigerer
+  function activeRowIndex() {
     if (editing) {
       const i = visible.findIndex(v => v.row.id === editing.rowId);
       if (i >= 0) return i;
     }
     return rect?.r0 ?? 0;
-  })();
-  const v = visible[activeRowIdx];
+  }
+  const activeTreeRow = () => (treeMode && !visible[activeRowIndex()]?.group ? visible[activeRowIndex()] : undefined);
+  // Rader som kan ekspanderes/kollapses: tre-noder og grupperader
+  const activeFoldRow = () => (treeMode || visible[activeRowIndex()]?.group ? visible[activeRowIndex()] : undefined);
+  const builtinCommands: InternalCommand[] = [
+    { id: 'copy', run: () => viaClipboard(() => clipboard.copy()) },
+    { id: 'copyFormatted', run: () => viaClipboard(() => clipboard.copy(true)) },
+    { id: 'cut', run: () => { if (!readonly) viaClipboard(clipboard.cut); } },
+    { id: 'paste', run: () => { if (!readonly) viaClipboard(clipboard.paste); } },
+    { id: 'undo', whileEditing: true, run: undo },
+    { id: 'redo', whileEditing: true, run: redo },
+    { id: 'delete', run: clearSelectionWithDelete },
+    { id: 'edit', run: () => { if (rect) startEdit(rect.r0, rect.c0); } },
+    { id: 'nextCell', run: () => moveCursor(0, 1) },
+    { id: 'prevCell', run: () => moveCursor(0, -1) },
+    { id: 'moveUp', run: () => moveCursor(-1, 0) },
+    { id: 'moveDown', run: () => moveCursor(1, 0) },
+    { id: 'moveLeft', run: () => moveCursor(0, -1) },
+    { id: 'moveRight', run: () => moveCursor(0, 1) },
+    {
+      id: 'expand', whileEditing: true, when: () => !!activeFoldRow(),
+      run: () => { const v = activeFoldRow()!; if (v.hasChildren && !isOpen(v)) toggleRow(v); },
+    },
+    {
+      id: 'collapse', whileEditing: true, when: () => !!activeFoldRow(),
+      run: () => { const v = activeFoldRow()!; if (v.hasChildren && isOpen(v)) toggleRow(v); },
+    },
+    { id: 'indent', whileEditing: true, when: () => !!activeTreeRow(), run: () => indentRow(activeTreeRow()!.row.id, activeRowIndex()) },
+    { id: 'outdent', whileEditing: true, when: () => !!activeTreeRow(), run: () => outdentRow(activeTreeRow()!.row.id) },
+    { id: 'moveRowUp', whileEditing: true, when: () => !!activeTreeRow(), run: () => moveRowWithinParent(activeTreeRow()!.row.id, -1) },
+    { id: 'moveRowDown', whileEditing: true, when: () => !!activeTreeRow(), run: () => moveRowWithinParent(activeTreeRow()!.row.id, +1) },
+    { id: 'fillDown', run: fillDown },
+    { id: 'fillRight', run: fillRight },
+    { id: 'insertRowAbove', label: tr('command.insertRowAbove'), when: () => canInsertRows, run: () => insertRow('above') },
+    { id: 'insertRowBelow', label: tr('command.insertRowBelow'), when: () => canInsertRows, run: () => insertRow('below') },
+    { id: 'insertChildRow', label: tr('command.insertChildRow'), when: () => canInsertRows && treeMode, run: () => insertRow('child') },
+    { id: 'duplicateRows', label: tr('command.duplicateRows'), when: () => canInsertRows, run: duplicateRows },
+    { id: 'deleteRows', label: tr('command.deleteRows'), when: () => canDeleteRows, run: deleteRows },
+    { id: 'search', whileEditing: true, run: openSearch },
+    { id: 'nextError', whileEditing: true, run: () => stepError(1) },
+    { id: 'prevError', whileEditing: true, run: () => stepError(-1) },
+    // Uten synlig område (endepunkt filtrert bort, kun aktiv celle) gjelder raden/kolonnen til aktiv celle
+    { id: 'selectRow', run: () => { if (activeCell) selectRows(rect?.r0 ?? activeCell.r, rect?.r1 ?? activeCell.r); } },
+    { id: 'selectColumn', run: () => { if (activeCell) selectCols(rect?.c0 ?? activeCell.c, rect?.c1 ?? activeCell.c); } },
+    { id: 'selectAll', run: () => selectRect({ r0: 0, r1: rowCount - 1, c0: 0, c1: colCount - 1 }, { wholeRows: true, wholeCols: true, active: activeCell ?? undefined }) },
+    { id: 'exportSelection', label: tr('command.exportSelection'), when: () => rects.length > 0, run: exportSelection },
+  ];
+  const commandById = new Map<string, InternalCommand>(builtinCommands.map(c => [c.id, c]));
+  for (const c of props.commands ?? []) commandById.set(c.id, c);
 
-  // --- HOTKEYS skal virke også mens vi redigerer ---
-  if (treeMode && v) {
-    // Ctrl/Cmd + venstre/høyre = kollaps/ekspander
-    if (ctrlOrCmd && (e.key === 'ArrowRight' || e.key === 'ArrowLeft')) {
-      e.preventDefault();
-      if (e.key === 'ArrowRight' && v.hasChildren && !expanded.has(v.row.id)) toggleExpand(v.row.id);
-      if (e.key === 'ArrowLeft'  && v.hasChildren &&  expanded.has(v.row.id)) toggleExpand(v.row.id);
+  const resolvedKeymap = React.useMemo(
+    () => resolveKeymap([...builtinCommands, ...(props.commands ?? [])], props.keymap, isMac),
+    [props.commands, props.keymap, isMac],
+  );
+  const conflictSignature = React.useRef('');
+  React.useEffect(() => {
+    const sig = resolvedKeymap.conflicts.map(c => `${c.chord}:${c.commands.join(',')}`).join('|');
+    if (sig === conflictSignature.current) return;
+    conflictSignature.current = sig;
+    if (resolvedKeymap.conflicts.length) props.onKeymapConflict?.(resolvedKeymap.conflicts);
+  }, [resolvedKeymap]);
+
+  function commandContext(): CommandContext<RowLike> {
+    const active = editing
+      ? { rowId: editing.rowId, colId: editing.colId }
+      : activeCell ? { rowId: visible[activeCell.r].row.id, colId: allCols[activeCell.c].id } : null;
+    return {
+      selection: rects.length ? selection : null,
+      selectedRows: rowsIn(rects).filter(r => !visible[r].group).map(r => visible[r].row),
+      selectedColumns: colsIn(rects).map(c => allCols[c]),
+      activeRowId: active?.rowId ?? null,
+      activeColId: active?.colId ?? null,
+      rows,
+      editing: !!editing,
+    };
+  }
+
+  function runCommand(id: string) {
+    const cmd = commandById.get(id);
+    if (cmd && (!cmd.when || cmd.when())) cmd.run(commandContext());
+  }
+  const shortcutFor = (id: string) => {
+    const chord = resolvedKeymap.byCommand.get(id)?.[0];
+    return chord ? formatChord(chord, isMac) : undefined;
+  };
+  const closeContextMenu = React.useCallback(() => setContextMenu(null), []);
+  function contextMenuItems(): ContextMenuItem[] {
+    const rowItem = (id: string, label: string, extra?: Partial<ContextMenuItem>): ContextMenuItem => {
+      const cmd = commandById.get(id);
+      return { id, label, shortcut: shortcutFor(id), disabled: !cmd || (!!cmd.when && !cmd.when()), ...extra };
+    };
+    const items: ContextMenuItem[] = [
+      rowItem('copy', tr('command.copy')),
+      rowItem('cut', tr('command.cut'), { disabled: readonly }),
+      rowItem('paste', tr('command.paste'), { disabled: readonly }),
+      rowItem('exportSelection', tr('command.exportSelection')),
+      rowItem('insertRowAbove', tr('command.insertRowAbove'), { separatorBefore: true }),
+      rowItem('insertRowBelow', tr('command.insertRowBelow')),
+    ];
+    if (treeMode) items.push(rowItem('insertChildRow', tr('command.insertChildRow')));
+    items.push(
+      rowItem('duplicateRows', tr('command.duplicateRows')),
+      rowItem('deleteRows', tr('command.deleteRows'), { danger: true }),
+    );
+    // Appens egne kommandoer med navn
+    const custom = (props.commands ?? []).filter(c => c.label && !DEFAULT_KEYMAP[c.id as keyof typeof DEFAULT_KEYMAP]);
+    custom.forEach((c, i) => items.push(rowItem(c.id, c.label!, { separatorBefore: i === 0 })));
+    return items;
+  }
+
+  // Kolonnemeny (høyreklikk eller ▾ i kolonneoverskriften): sortering, frysing, skjul og gruppering
+  const [headerMenu, setHeaderMenu] = React.useState<{ x: number; y: number; cIdx: number } | null>(null);
+  const closeHeaderMenu = React.useCallback(() => setHeaderMenu(null), []);
+  function onHeaderContextMenu(e: React.MouseEvent, cIdx: number) {
+    e.preventDefault();
+    e.stopPropagation();
+    setHeaderMenu({ x: e.clientX, y: e.clientY, cIdx });
+  }
+  function headerMenuItems(cIdx: number): ContextMenuItem[] {
+    const col = allCols[cIdx];
+    const frozenRowsTo = rect ? rect.r1 + 1 : 0;
+    const sortable = col.sortable !== false;
+    return [
+      { id: 'sortAsc', label: tr('columnMenu.sortAsc'), disabled: !sortable },
+      { id: 'sortDesc', label: tr('columnMenu.sortDesc'), disabled: !sortable },
+      { id: 'freezeLeft', label: tr('columnMenu.freezeLeft'), disabled: cIdx >= frozenRightStart, separatorBefore: true },
+      { id: 'freezeRight', label: tr('columnMenu.freezeRight'), disabled: cIdx < nFrozenLeft },
+      { id: 'unfreezeColumns', label: tr('columnMenu.unfreezeColumns'), disabled: !nFrozenLeft && !nFrozenRight },
+      { id: 'freezeRows', label: tr('columnMenu.freezeRows', { count: frozenRowsTo }), separatorBefore: true },
+      { id: 'unfreezeRows', label: tr('columnMenu.unfreezeRows'), disabled: !nFrozenRows },
+      { id: 'hide', label: tr('columnMenu.hide'), separatorBefore: true, disabled: allCols.length <= 1 },
+      { id: 'group', label: tr('columnMenu.group'), disabled: groupBy.includes(col.id) },
+    ];
+  }
+  function runHeaderMenu(id: string, cIdx: number) {
+    const col = allCols[cIdx];
+    switch (id) {
+      case 'sortAsc': updateSort([{ colId: col.id, dir: 'asc' }]); break;
+      case 'sortDesc': updateSort([{ colId: col.id, dir: 'desc' }]); break;
+      case 'freezeLeft': setFreeze({ left: cIdx + 1 }); break;
+      case 'freezeRight': setFreeze({ right: allCols.length - cIdx }); break;
+      case 'unfreezeColumns': setFreeze({ left: 0, right: 0 }); break;
+      case 'freezeRows': setFreeze({ rows: Math.max(1, rect ? rect.r1 + 1 : 1) }); break;
+      case 'unfreezeRows': setFreeze({ rows: 0 }); break;
+      case 'hide': toggleColumnHidden(col.id); break;
+      case 'group': updateGroupBy([...groupBy, col.id]); break;
+    }
+  }
+
+  function handleKeyDownCapture(e: React.KeyboardEvent<HTMLDivElement>) {
+    const chord = chordFromEvent(e, isMac);
+    const id = resolvedKeymap.byChord.get(chord);
+    const cmd = id ? commandById.get(id) : undefined;
+    const runnable = !!cmd && (!editing || !!cmd.whileEditing) && (!cmd.when || cmd.when());
+
+    // Filter- og søkefelt eier egne taster; bare søk slipper gjennom
+    if ((e.target as HTMLElement).closest?.('[data-tc-input]')) {
+      if (runnable && id === 'search') { e.preventDefault(); cmd!.run(commandContext()); }
       return;
     }
-    // Alt + piltaster = inn/ut og flytt opp/ned
-    if (e.altKey && (e.key === 'ArrowRight' || e.key === 'ArrowLeft' || e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+
+    const native = NATIVE_CLIPBOARD_CHORDS[chord];
+    if (runnable) {
+      // Standard kopier/klipp ut/lim inn går via nettleserens hendelser (useClipboard)
+      if (native && native === id && cmd === builtinCommands.find(c => c.id === id)) return;
       e.preventDefault();
-      if (e.key === 'ArrowRight') indentRow(v.row.id, activeRowIdx);
-      if (e.key === 'ArrowLeft')  outdentRow(v.row.id);
-      if (e.key === 'ArrowUp')    moveRowWithinParent(v.row.id, -1);
-      if (e.key === 'ArrowDown')  moveRowWithinParent(v.row.id, +1);
+      cmd!.run(commandContext());
       return;
     }
-  }
+    // Ubundet clipboard-kombinasjon: stopp nettleserens hendelse
+    if (native && !editing) { e.preventDefault(); return; }
 
-  // Hvis vi er i redigering og ikke traff en hotkey over: la input få styre,
-  // men støtt Enter=commit.
-  if (editing) {
-    if (e.key === 'Enter') { e.preventDefault(); commitEdit(); }
-    return;
+    // Under redigering styrer input selv, men Enter = commit og Esc = avbryt.
+    // Shift+Enter i flerlinjes editor gir ny linje
+    if (editing && e.key === 'Enter' && !(e.shiftKey && e.target instanceof HTMLTextAreaElement)) {
+      e.preventDefault();
+      commitEdit();
+    } else if (editing && e.key === 'Escape') {
+      e.preventDefault();
+      cancelEdit();
+    }
   }
 
-  // Grid: Delete / Tab / Enter
-  if (e.key === 'Delete') { e.preventDefault(); clearSelectionWithDelete(); return; }
-  if (e.key === 'Tab')    { e.preventDefault(); moveCursor(0, e.shiftKey ? -1 : 1); return; }
-  if (e.key === 'Enter')  { e.preventDefault(); if (rect) startEdit(rect.r0, rect.c0); return; }
-
-  // Vanlig piltast-navigasjon (alltid navigasjon)
-  if (e.key === 'ArrowUp')    { e.preventDefault(); moveCursor(-1,  0); return; }
-  if (e.key === 'ArrowDown')  { e.preventDefault(); moveCursor( 1,  0); return; }
-  if (e.key === 'ArrowLeft')  { e.preventDefault(); moveCursor( 0, -1); return; }
-  if (e.key === 'ArrowRight') { e.preventDefault(); moveCursor( 0,  1); return; }
-}
-
-  function applyActionForward(action: HistoryAction) {
-    if (!props.onPatch) return;
-    for (const ch of action.changes) props.onPatch({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.oldValue, nextValue: ch.nextValue });
-    props.onCommit?.();
-  }
-  function applyActionInverse(action: HistoryAction) {
-    if (!props.onPatch) return;
-    for (const ch of action.changes) props.onPatch({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.nextValue, nextValue: ch.oldValue });
-    props.onCommit?.();
+  // Render helpers
+  const HEADER_BG = t.headerBg, HEADER_FG = t.headerFg;
+  const BORDER_H = t.borderH, BORDER_V = t.borderV;
+  const SEL_OUT = t.selectionOutline, SEL_FILL = t.selectionFill;
+  const HIT_OUT = t.hitOutline, HIT_FILL = t.hitFill;
+  const BODY_BG = t.bodyBg, SUMMARY_BG = t.summaryBg;
+  const FREEZE_SHADOW_LEFT = `6px 0 6px -4px ${t.freezeShadow}`, FREEZE_SHADOW_RIGHT = `-6px 0 6px -4px ${t.freezeShadow}`;
+  const FREEZE_SHADOW_BOTTOM = `0 6px 6px -4px ${t.freezeShadow}`;
+  const ERR = t.error;
+  const levelFg = (lvl: number) => t.treeLevelFg[Math.min(lvl, t.treeLevelFg.length - 1)];
+  // Kolonnegeometri: venstrekant pr kolonne (inkl. 40px #-kolonne)
+  const colLefts = React.useMemo(() => {
+    const out: number[] = [];
+    let x = 40;
+    for (const c of allCols) { out.push(x); x += widthOf(c); }
+    return out;
+  }, [allCols, colWidths]);
+  const totalWidth = allCols.length ? colLefts[allCols.length - 1] + widthOf(allCols[allCols.length - 1]) : 40;
+  // Frosne kolonner: sticky med venstre-offset = # + bredden til foregående frosne kolonner,
+  // og høyre-offset = bredden til etterfølgende frosne kolonner
+  const nFrozenLeft = Math.min(frozenCount, allCols.length);
+  const nFrozenRight = Math.min(frozenRightCount, allCols.length - nFrozenLeft);
+  const frozenRightStart = allCols.length - nFrozenRight;
+  const frozenLeftEnd = colLefts[nFrozenLeft] ?? totalWidth;
+  const frozenRightWidth = totalWidth - (colLefts[frozenRightStart] ?? totalWidth);
+  const isFrozenCol = (cIdx: number) => cIdx < nFrozenLeft || cIdx >= frozenRightStart;
+  // Skygge ved fryselinjen når innhold ligger under de frosne kolonnene
+  const shadowLeft = scrollLeft > 0;
+  const shadowRight = scrollLeft + (viewportWidth || totalWidth) < totalWidth - 1;
+  function frozenStyle(cIdx: number, zIndex: number): React.CSSProperties | undefined {
+    if (cIdx < nFrozenLeft) {
+      return {
+        position: 'sticky', left: colLefts[cIdx], zIndex,
+        boxShadow: shadowLeft && cIdx === nFrozenLeft - 1 ? FREEZE_SHADOW_LEFT : undefined,
+      };
+    }
+    if (cIdx >= frozenRightStart) {
+      return {
+        position: 'sticky', right: totalWidth - colLefts[cIdx] - widthOf(allCols[cIdx]), zIndex,
+        boxShadow: shadowRight && cIdx === frozenRightStart ? FREEZE_SHADOW_RIGHT : undefined,
+      };
+    }
+    return undefined;
   }
 
-  // Render helpers
-  const HEADER_BG = '#0f172a', HEADER_FG = '#e5e7eb';
-  const BORDER_H = '#1f2937', BORDER_V = '#243041';
-  const SEL_OUT = '#93c5fd', SEL_FILL = 'rgba(147,197,253,0.15)';
-  const gridCols = `40px ${allCols.map(c => `${c.width ?? 160}px`).join(' ')}`;
+  // Horisontal virtualisering: bare kolonner i/nær synsfeltet rendres (frosne alltid)
+  const colWindow = computeColumnWindow(
+    colLefts,
+    allCols.map(widthOf),
+    nFrozenLeft,
+    scrollLeft,
+    viewportWidth || totalWidth,
+    200,
+    nFrozenRight,
+  );
+  // ARIA: header (+ filterrad) teller som rader foran datarader; aktiv celle meldes når den er rendret
+  const ariaHeadRows = props.showFilterRow ? 2 : 1;
+  const gridDomId = React.useId();
+  const cellDomId = (r: number, c: number) => `${gridDomId}-${r}-${c}`;
+  const activeRendered = !!activeCell && !editing
+    && (activeCell.r < nFrozenRows || (activeCell.r >= startIdx && activeCell.r <= endIdx))
+    && (isFrozenCol(activeCell.c) || colWindow.window.includes(activeCell.c));
+  const activeDescendant = activeRendered ? cellDomId(activeCell!.r, activeCell!.c) : undefined;
+  const gridCols = [
+    '40px',
+    ...colWindow.frozen.map(i => `${widthOf(allCols[i])}px`),
+    `${colWindow.padLeft}px`,
+    ...colWindow.window.map(i => `${widthOf(allCols[i])}px`),
+    `${colWindow.padRight}px`,
+    ...colWindow.frozenRight.map(i => `${widthOf(allCols[i])}px`),
+  ].join(' ');
+  function colCells(render: (col: ColumnDef, cIdx: number) => React.ReactNode) {
+    return [
+      ...colWindow.frozen.map(i => render(allCols[i], i)),
+      <div key="__padLeft" aria-hidden />,
+      ...colWindow.window.map(i => render(allCols[i], i)),
+      <div key="__padRight" aria-hidden />,
+      ...colWindow.frozenRight.map(i => render(allCols[i], i)),
+    ];
+  }
   const isEmptyRow = (r: RowLike) => allCols.every(c => {
     const v = r[c.id];
     return v === null || v === undefined || (typeof v === 'string' ? v.trim() === '' : false);
@@ -408,23 +1635,45 @@ export default function TableCore(props: TableCoreProps) {
 
   // Mus-hendelser celler
   function onCellMouseDown(e: React.MouseEvent, rAbs: number, cIdx: number) {
-    if (cIdx === -1) return;
+    if (cIdx === -1 || e.button !== 0) return; // høyreklikk håndteres av kontekstmenyen
     e.preventDefault();
     focusRoot();
-    setSingle(rAbs, cIdx);
+    // Shift utvider det aktive området, Ctrl/Cmd legger til et nytt
+    if (e.shiftKey) setRange(rAbs, cIdx);
+    else setSingle(rAbs, cIdx, e.ctrlKey || e.metaKey);
     setIsDraggingRange(true);
     dragStartRef.current = { x: e.clientX, y: e.clientY, r: rAbs, c: cIdx };
   }
+  // Klikk på # markerer hele rader, klikk på kolonneoverskrift hele kolonner
+  function onRowHeaderMouseDown(e: React.MouseEvent, rAbs: number) {
+    e.stopPropagation();
+    focusRoot();
+    if (e.button !== 0) return;
+    if (e.shiftKey && activeCell) selectRows(activeCell.r, rAbs);
+    else selectRows(rAbs, rAbs, e.ctrlKey || e.metaKey);
+  }
+  function onHeaderClick(e: React.MouseEvent, cIdx: number) {
+    if (suppressHeaderClickRef.current) return;
+    focusRoot();
+    if (e.shiftKey && activeCell) selectCols(activeCell.c, cIdx);
+    else selectCols(cIdx, cIdx, e.ctrlKey || e.metaKey);
+  }
   function onCellMouseEnter(_e: React.MouseEvent, rAbs: number, cIdx: number) {
+    if (fillTarget) {
+      const t = fillTargetFor(rAbs, cIdx);
+      if (t) setFillTarget(t);
+      return;
+    }
     if (!isDraggingRange) return;
     if (cIdx === -1) return;
     setRange(rAbs, cIdx);
   }
   function onCellDoubleClick(_e: React.MouseEvent, rAbs: number, cIdx: number) {
     focusRoot();
+    if (visible[rAbs]?.group) { toggleRow(visible[rAbs]); return; }
     startEdit(rAbs, cIdx);
     setTimeout(() => {
-      const el = bodyRef.current?.querySelector('input, textarea, select') as HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement | null;
+      const el = bodyRef.current?.querySelector('.tc-editor input, .tc-editor textarea') as HTMLInputElement | HTMLTextAreaElement | null;
       el?.select?.();
     }, 30);
   }
@@ -433,20 +1682,97 @@ export default function TableCore(props: TableCoreProps) {
   function onHeaderDragStart(e: React.DragEvent, i: number) {
     setDragColIdx(i);
     e.dataTransfer.setData('text/plain', String(i));
+    e.dataTransfer.setData(GROUP_DRAG_TYPE, allCols[i].id);
     e.dataTransfer.effectAllowed = 'move';
   }
+  function columnFromDrop(e: React.DragEvent): string | null {
+    const id = e.dataTransfer.getData(GROUP_DRAG_TYPE);
+    if (id) return id;
+    return dragColIdx !== null ? allCols[dragColIdx]?.id ?? null : null;
+  }
   function onHeaderDrop(e: React.DragEvent, to: number) {
     e.preventDefault();
     const from = dragColIdx ?? Number(e.dataTransfer.getData('text/plain'));
     if (isNaN(from) || from === to) return;
-    const next = [...colOrder];
-    const [m] = next.splice(from, 1);
-    next.splice(to, 0, m);
-    setColOrder(next);
-    props.onReorderColumns?.(next);
+    const fromId = allCols[from]?.id, toId = allCols[to]?.id;
+    if (!fromId || !toId) return;
+    const next = colOrder.filter(id => id !== fromId);
+    next.splice(colOrder.indexOf(toId), 0, fromId);
+    commitAction({ changes: [], ops: [{ kind: 'reorderColumns', before: colOrder, after: next }] });
     setDragColIdx(null);
   }
 
+  // Kolonnebredde: dra i høyre kant, dobbeltklikk for auto-tilpasning
+  const [resizing, setResizing] = React.useState<{ colId: string; startX: number; startW: number } | null>(null);
+  const suppressHeaderClickRef = React.useRef(false);
+  function onResizeMouseDown(e: React.MouseEvent, col: ColumnDef) {
+    e.preventDefault();
+    e.stopPropagation();
+    setResizing({ colId: col.id, startX: e.clientX, startW: widthOf(col) });
+  }
+  React.useEffect(() => {
+    if (!resizing) return;
+    const st = resizing;
+    let latest = colWidths;
+    let moved = false;
+    function onMove(e: MouseEvent) {
+      const w = Math.max(MIN_COL_WIDTH, Math.round(st.startW + e.clientX - st.startX));
+      moved = true;
+      latest = { ...latest, [st.colId]: w };
+      setColWidths(latest);
+    }
+    function onUp() {
+      if (moved) {
+        emitView({ columnWidths: latest });
+        // Klikket som avslutter resize skal ikke sortere
+        suppressHeaderClickRef.current = true;
+        setTimeout(() => { suppressHeaderClickRef.current = false; }, 0);
+      }
+      setResizing(null);
+    }
+    window.addEventListener('mousemove', onMove);
+    window.addEventListener('mouseup', onUp);
+    return () => {
+      window.removeEventListener('mousemove', onMove);
+      window.removeEventListener('mouseup', onUp);
+    };
+  }, [resizing]);
+  function autoFitColumn(col: ColumnDef) {
+    const style = rootRef.current ? getComputedStyle(rootRef.current) : null;
+    const family = style?.fontFamily || 'system-ui';
+    let max = measureTextWidth(col.header, `600 13px ${family}`) + 24; // plass til sorteringspil
+    const isFirst = allCols[0]?.id === col.id;
+    for (const id of orderedIds) {
+      const row = idToRow.get(id);
+      if (!row) continue;
+      // Samme skrift som raden vises med: fet for foreldre, mindre fra nivå 2
+      const level = treeMode ? levelOf(id) : 0;
+      const hasChildren = treeMode && (childrenOf.get(id)?.length ?? 0) > 0;
+      const indent = isFirst ? level * 16 : 0;
+      const w = measureTextWidth(cellText(col, row), `${fontWeightFor(hasChildren)} ${fontSizeForLevel(level)}px ${family}`) + indent;
+      if (w > max) max = w;
+    }
+    const next = { ...colWidths, [col.id]: Math.min(MAX_AUTOFIT_WIDTH, Math.ceil(max + 22)) }; // 2 × padding + kant
+    setColWidths(next);
+    emitView({ columnWidths: next });
+  }
+  function levelOf(id: string) {
+    let lvl = 0;
+    let p = parentOf.get(id) ?? null;
+    while (p && lvl < 50) { lvl++; p = parentOf.get(p) ?? null; }
+    return lvl;
+  }
+
+  // Vis/skjul kolonner
+  const [chooserOpen, setChooserOpen] = React.useState(false);
+  function setHidden(next: string[]) {
+    setHiddenCols(next);
+    emitView({ hiddenColumns: next });
+  }
+  function toggleColumnHidden(colId: string) {
+    setHidden(hiddenCols.includes(colId) ? hiddenCols.filter(id => id !== colId) : [...hiddenCols, colId]);
+  }
+
   // Rader drag (via #)
   function onRowDragStart(e: React.DragEvent, idx: number) {
     const v = visible[idx];
@@ -479,8 +1805,7 @@ export default function TableCore(props: TableCoreProps) {
     if (fromPos === -1 || toPos === -1) return;
     const [m] = next.splice(fromPos, 1);
     next.splice(toPos, 0, m);
-    setRowOrder(next);
-    props.onReorderRows?.(next);
+    commitAction({ changes: [], ops: [{ kind: 'reorderRows', before: rowOrder, after: next }] });
     setDragRowIdx(null);
   }
 
@@ -491,190 +1816,488 @@ export default function TableCore(props: TableCoreProps) {
   const fontStyleFor = (lvl: number) => (lvl >= 1 ? 'italic' as const : 'normal' as const);
 
   return (
-    <div
-      ref={rootRef}
-      tabIndex={0}
-      onKeyDownCapture={handleKeyDownCapture}
-      onMouseDown={focusRoot}
-      style={{
-        border: `1px solid ${BORDER_H}`,
-        borderRadius: 0,
-        width: '100%',
-        overflow: 'hidden',
-        userSelect: editing ? 'text' : 'none',
-        outline: 'none',
-      }}
-    >
-      <style>{editorCss}</style>
-
-      {/* Header */}
+    <TableThemeContext.Provider value={theme}>
+      <I18nContext.Provider value={i18n}>
+        <div
+          ref={rootRef}
+          className="tc-root"
+          data-tc-grid={gridDomId}
+          onKeyDownCapture={handleKeyDownCapture}
+          onMouseDown={focusRoot}
+          style={{
+            background: BODY_BG,
+            color: t.bodyFg,
+            border: `1px solid ${BORDER_H}`,
+            borderRadius: 0,
+            width: '100%',
+            overflow: 'hidden',
+            userSelect: editing ? 'text' : 'none',
+            outline: 'none',
+          }}
+        >
+          <style>{editorCss + themeCss(`:where([data-tc-grid="${gridDomId}"])`, theme) + themePrintCss('.tc-root')}</style>
+          <div role="status" aria-live="polite" aria-atomic style={VISUALLY_HIDDEN}>{announcement}</div>
+
+          {searchOpen ? (
+            <SearchBar
+              query={query}
+              replacement={replacement}
+              replaceMode={replaceMode}
+              canReplace={!readonly && !!props.onPatch}
+              hitIndex={hitIdx}
+              hitCount={hits.length}
+              focusSignal={searchFocus}
+              onQueryChange={setQuery}
+              onReplacementChange={setReplacement}
+              onToggleReplace={() => setReplaceMode(m => !m)}
+              onNext={() => stepHit(1)}
+              onPrev={() => stepHit(-1)}
+              onReplace={replaceCurrent}
+              onReplaceAll={() => replaceHits(hits)}
+              onClose={closeSearch}
+            />
+          ) : null}
+
+          {props.showGroupPanel || grouping ? (
+            <GroupByPanel
+              groupBy={groupBy}
+              columns={columns}
+              onChange={updateGroupBy}
+              columnFromDrop={(e) => { const id = columnFromDrop(e); setDragColIdx(null); return id; }}
+            />
+          ) : null}
+
+          {/* Scroll-container: sticky header/filterrad + virtualiserte rader og kolonner.
+              Dette er rutenettet for skjermlesere; aria-rowindex/colindex gir posisjon selv om bare et utsnitt rendres. */}
+          <div
+            ref={bodyRef}
+            tabIndex={0}
+            role={treeMode ? 'treegrid' : 'grid'}
+            aria-label={props.ariaLabel}
+            aria-rowcount={ariaHeadRows + rowCount + (totals ? 1 : 0)}
+            aria-colcount={colCount + 1}
+            aria-multiselectable
+            aria-readonly={readonly || undefined}
+            aria-activedescendant={activeDescendant}
+            onScroll={(e) => {
+              const el = e.target as HTMLDivElement;
+              setScrollTop(el.scrollTop);
+              setScrollLeft(el.scrollLeft);
+            }}
+            onMouseDown={focusRoot}
+            style={{ height: bodyHeight + headHeight + footerHeight, overflow: 'auto', outline: 'none' }}
+          >
+            <div ref={headRef} role="rowgroup" style={{ position: 'sticky', top: 0, zIndex: 5, width: totalWidth }}>
+              {/* Header */}
+              <div
+                role="row"
+                aria-rowindex={1}
+                style={{
+                  display: 'grid',
+                  gridTemplateColumns: gridCols,
+                  background: HEADER_BG,
+                  color: HEADER_FG,
+                  borderBottom: `1px solid ${BORDER_H}`,
+                  fontWeight: 600,
+                  fontSize: 13,
+                }}
+              >
+                <div role="columnheader" aria-colindex={1} aria-label={tr('grid.rowNumber')} style={{
+                  textAlign: 'center',
+                  borderRight: `1px solid ${BORDER_V}`,
+                  position: 'sticky',
+                  left: 0,
+                  zIndex: 4,
+                  background: HEADER_BG,
+                }}>
+                  <button
+                    type="button"
+                    title={tr('grid.chooseColumns')}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => setChooserOpen(o => !o)}
+                    style={{ width: '100%', height: '100%', background: 'transparent', color: 'inherit', border: 0, cursor: 'pointer', font: 'inherit' }}
+                  >#</button>
+                  {chooserOpen ? (
+                    <ColumnChooser
+                      columns={orderedCols}
+                      hidden={hiddenCols}
+                      onToggle={toggleColumnHidden}
+                      onShowAll={() => setHidden([])}
+                      onClose={() => setChooserOpen(false)}
+                    />
+                  ) : null}
+                </div>
+                {colCells((c, i) => {
+                  const sortIdx = sort.findIndex(s => s.colId === c.id);
+                  const sortSpec = sortIdx >= 0 ? sort[sortIdx] : null;
+                  return (
+                    <div
+                      key={c.id}
+                      role="columnheader"
+                      aria-colindex={i + 2}
+                      aria-sort={sortIdx === 0 ? (sortSpec!.dir === 'asc' ? 'ascending' : 'descending') : undefined}
+                      aria-selected={rects.some(rc => rc.r0 === 0 && rc.r1 === rowCount - 1 && i >= rc.c0 && i <= rc.c1) || undefined}
+                      draggable
+                      onDragStart={(e) => onHeaderDragStart(e, i)}
+                      onDragOver={(e) => e.preventDefault()}
+                      onDrop={(e) => onHeaderDrop(e, i)}
+                      onClick={(e) => onHeaderClick(e, i)}
+                      onContextMenu={(e) => onHeaderContextMenu(e, i)}
+                      title={tr('grid.selectColumn')}
+                      style={{
+                        padding: '8px 10px',
+                        borderRight: i === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
+                        cursor: 'grab',
+                        background: HEADER_BG,
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 4,
+                        position: 'relative',
+                        ...frozenStyle(i, 3),
+                      }}
+                    >
+                      <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{c.header}</span>
+                      {isFilterActive(filters[c.id]) ? <span style={{ fontSize: 10, color: SEL_OUT }} title={tr('grid.filtered')}>●</span> : null}
+                      <span
+                        draggable={false}
+                        onMouseDown={(e) => onResizeMouseDown(e, c)}
+                        onDoubleClick={(e) => { e.stopPropagation(); autoFitColumn(c); }}
+                        onClick={(e) => e.stopPropagation()}
+                        title={tr('grid.resizeColumn')}
+                        style={{ position: 'absolute', top: 0, right: -3, width: 6, height: '100%', cursor: 'col-resize', zIndex: 1 }}
+                      />
+                      {c.sortable !== false ? (
+                        <span
+                          aria-hidden
+                          draggable={false}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onClick={(e) => onSortClick(e, c)}
+                          title={tr('grid.sortColumn')}
+                          style={{ fontSize: 10, opacity: sortSpec ? 0.8 : 0.35, cursor: 'pointer' }}
+                        >
+                          {sortSpec ? <>{sortSpec.dir === 'asc' ? '▲' : '▼'}{sort.length > 1 ? sortIdx + 1 : ''}</> : '⇅'}
+                        </span>
+                      ) : null}
+                      <span
+                        aria-hidden
+                        draggable={false}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => { e.stopPropagation(); const b = (e.currentTarget as HTMLElement).getBoundingClientRect(); setHeaderMenu({ x: b.left, y: b.bottom, cIdx: i }); }}
+                        title={tr('grid.columnMenu')}
+                        style={{ marginLeft: 'auto', fontSize: 10, opacity: 0.6, cursor: 'pointer', padding: '0 2px' }}
+                      >
+                        ▾
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {/* Filterrad */}
+              {props.showFilterRow ? (
+                <div
+                  data-tc-input
+                  role="row"
+                  aria-rowindex={2}
+                  onMouseDown={(e) => e.stopPropagation()}
+                  style={{
+                    display: 'grid',
+                    gridTemplateColumns: gridCols,
+                    background: HEADER_BG,
+                    color: HEADER_FG,
+                    borderBottom: `1px solid ${BORDER_H}`,
+                    fontSize: 12,
+                  }}
+                >
+                  <div role="gridcell" aria-colindex={1} style={{ borderRight: `1px solid ${BORDER_V}`, position: 'sticky', left: 0, zIndex: 2, background: HEADER_BG }} />
+                  {colCells((c, i) => (
+                    <div
+                      key={c.id}
+                      role="gridcell"
+                      aria-colindex={i + 2}
+                      aria-label={tr('grid.filterFor', { column: c.header })}
+                      style={{
+                        padding: '4px 6px',
+                        borderRight: i === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
+                        ...frozenStyle(i, 1),
+                        background: HEADER_BG,
+                      }}
+                    >
+                      {c.filterable === false ? null : (
+                        <FilterCell col={c} filter={filters[c.id]} onChange={f => setColumnFilter(c.id, f)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              {/* Frosne rader */}
+              {visible.slice(0, nFrozenRows).map((v, i) => renderRow(v, i))}
+            </div>
+
+            {/* Body */}
+            <div aria-hidden style={{ height: padTop }} />
+            {windowRows.map((v, li) => renderRow(v, startIdx + li))}
+            <div aria-hidden style={{ height: padBottom }} />
+
+            {/* Totalrad, fastlåst nederst */}
+            {totals ? (
+              <div
+                role="row"
+                aria-rowindex={ariaHeadRows + rowCount + 1}
+                style={{
+                  position: 'sticky', bottom: 0, zIndex: 3,
+                  display: 'grid', gridTemplateColumns: gridCols, width: totalWidth,
+                  height: rowHeight, lineHeight: `${rowHeight - 10}px`, boxSizing: 'border-box',
+                  background: HEADER_BG, color: HEADER_FG, borderTop: `1px solid ${BORDER_H}`, fontWeight: 600, fontSize: 13,
+                }}
+              >
+                <div role="rowheader" aria-colindex={1} aria-label={tr('grid.totals')} style={{ textAlign: 'center', borderRight: `1px solid ${BORDER_V}`, position: 'sticky', left: 0, zIndex: 2, background: HEADER_BG }}>Σ</div>
+                {colCells((col, cIdx) => {
+                  const value = totals[col.id];
+                  const text = value === undefined
+                    ? (cIdx === 0 ? tr('grid.totals') : '')
+                    : col.format && col.aggregate !== 'count' ? col.format(value, totals as RowLike) : value;
+                  const isFrozen = isFrozenCol(cIdx);
+                  return (
+                    <div
+                      key={col.id}
+                      role="gridcell"
+                      aria-colindex={cIdx + 2}
+                      aria-readonly
+                      style={{
+                        padding: '6px 10px', whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis',
+                        borderRight: cIdx === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
+                        background: isFrozen ? HEADER_BG : undefined,
+                        ...frozenStyle(cIdx, 1),
+                      }}
+                    >
+                      {text}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : null}
+          </div>
+
+          {contextMenu ? (
+            <ContextMenu
+              x={contextMenu.x}
+              y={contextMenu.y}
+              items={contextMenuItems()}
+              onSelect={(id) => { focusRoot(); runCommand(id); }}
+              onClose={closeContextMenu}
+            />
+          ) : null}
+          {headerMenu ? (
+            <ContextMenu
+              x={headerMenu.x}
+              y={headerMenu.y}
+              items={headerMenuItems(headerMenu.cIdx)}
+              onSelect={(id) => { focusRoot(); runHeaderMenu(id, headerMenu.cIdx); }}
+              onClose={closeHeaderMenu}
+            />
+          ) : null}
+        </div>
+      </I18nContext.Provider>
+    </TableThemeContext.Provider>
+  );
+
+  // helpers
+  function renderRow(v: VisibleRow, rAbs: number) {
+    const r = v.row;
+    const isSummary = v.isSummary;
+    const empty = isEmptyRow(r);
+    const indentPx = v.level * 16;
+    const isFrozenRow = rAbs < nFrozenRows; // ligger i den sticky headeren og trenger tett bakgrunn
+
+    return (
       <div
+        key={r.id}
+        role="row"
+        aria-rowindex={ariaHeadRows + rAbs + 1}
+        aria-level={treeMode || grouping ? v.level + 1 : undefined}
+        aria-expanded={(treeMode || grouping) && v.hasChildren ? isOpen(v) : undefined}
+        ref={variableHeights ? (el) => measureRow(r.id, el) : undefined}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => onRowDrop(e, rAbs)}
         style={{
           display: 'grid',
           gridTemplateColumns: gridCols,
-          background: HEADER_BG,
-          color: HEADER_FG,
+          width: totalWidth,
           borderBottom: `1px solid ${BORDER_H}`,
-          fontWeight: 600,
-          fontSize: 13,
+          boxSizing: 'border-box',
+          height: variableHeights ? undefined : rowHeight,
+          minHeight: rowHeight,
+          lineHeight: `${rowHeight - 10}px`,
+          background: isSummary ? SUMMARY_BG : isFrozenRow ? BODY_BG : undefined,
+          boxShadow: isFrozenRow && rAbs === nFrozenRows - 1 && scrollTop > 0 ? FREEZE_SHADOW_BOTTOM : undefined,
+          opacity: isSummary ? 0.95 : 1,
+          color: treeMode || grouping ? levelFg(v.level) : undefined,
+          fontWeight: fontWeightFor(v.hasChildren),
+          fontStyle: fontStyleFor(v.level),
+          fontSize: fontSizeForLevel(v.level),
         }}
       >
-        <div style={{
-          textAlign: 'center',
-          borderRight: `1px solid ${BORDER_V}`,
-          position: 'sticky',
-          left: 0,
-          zIndex: 3,
-          background: HEADER_BG,
-        }}>#</div>
-        {allCols.map((c, i) => (
-          <div
-            key={c.id}
-            draggable
-            onDragStart={(e) => onHeaderDragStart(e, i)}
-            onDragOver={(e) => e.preventDefault()}
-            onDrop={(e) => onHeaderDrop(e, i)}
-            style={{
-              padding: '8px 10px',
-              borderRight: i === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
-              cursor: 'grab',
-              background: HEADER_BG,
-            }}
-          >
-            {c.header}
-          </div>
-        ))}
-      </div>
+        {/* # kolonne: caret + drag + nummer */}
+        <div
+          role="rowheader"
+          aria-colindex={1}
+          aria-label={v.group ? `${v.group.label} (${v.group.count})` : isSummary ? tr('grid.summary') : tr('grid.row', { index: rAbs + 1 })}
+          draggable={!isSummary && !grouping}
+          onDragStart={(e) => onRowDragStart(e, rAbs)}
+          onContextMenu={(e) => onRowContextMenu(e, rAbs, -1)}
+          title={v.group ? tr('grid.groupRow') : isSummary ? tr('grid.summaryRow') : rowErrorCount.get(r.id) ? tr('grid.rowErrors', { count: rowErrorCount.get(r.id)! }) : tr('grid.dragRow')}
+          style={{
+            display: 'flex',
+            boxShadow: rowErrorCount.get(r.id) ? `inset 3px 0 0 ${ERR}` : undefined,
+            alignItems: 'center',
+            gap: 6,
+            justifyContent: 'center',
+            borderRight: `1px solid ${BORDER_V}`,
+            background: t.rowHeaderBg,
+            color: t.rowHeaderFg,
+            cursor: isSummary ? 'default' : 'grab',
+            position: 'sticky',
+            left: 0,
+            zIndex: 2,
+            padding: '0 4px',
+          }}
+          onMouseDown={(e) => onRowHeaderMouseDown(e, rAbs)}
+        >
+          {treeMode || grouping ? (
+            <span
+              aria-hidden
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => { e.preventDefault(); e.stopPropagation(); if (v.hasChildren) toggleRow(v); }}
+              style={{
+                fontSize: 10, lineHeight: '10px', width: 10, textAlign: 'center',
+                opacity: v.hasChildren ? 0.9 : 0.25, cursor: v.hasChildren ? 'pointer' : 'default', userSelect: 'none',
+              }}
+              title={v.hasChildren ? (isOpen(v) ? tr('grid.collapse') : tr('grid.expand')) : undefined}
+            >
+              {v.hasChildren ? (isOpen(v) ? '▾' : '▸') : '•'}
+            </span>
+          ) : null}
+          <span>{empty || v.group ? '' : (rAbs + 1)}</span>
+        </div>
 
-      {/* Body */}
-      <div
-        ref={bodyRef}
-        onScroll={(e) => setScrollTop((e.target as HTMLDivElement).scrollTop)}
-        onMouseDown={focusRoot}
-        style={{ height: bodyHeight, overflow: 'auto' }}
-      >
-        <div style={{ height: padTop }} />
-        {windowRows.map((v, li) => {
-          const rAbs = startIdx + li;
-          const r = v.row;
-          const isSummary = v.isSummary;
-          const empty = isEmptyRow(r);
-          const indentPx = v.level * 16;
+        {/* Data-celler */}
+        {colCells((col, cIdx) => {
+          const cellSelected = isSel(rAbs, cIdx);
+          const isEditing = editing && editing.rowId === r.id && editing.colId === col.id;
+          const value = r[col.id];
+          const formulaError = value instanceof FormulaError ? value : null;
+          const formatted = v.group
+            ? groupCellText(v, col, cIdx)
+            : formulaError ? formulaError.code
+            : col.format ? col.format(value, r) : value ?? '';
+          const isFirstDataCol = cIdx === 0;
+          const isHit = hitKeys.has(`${r.id}:${col.id}`);
+          const isCurrentHit = !!currentHit && currentHit.rowId === r.id && currentHit.colId === col.id;
+          const showFillHandle = !readonly && !editing && !!rect && rAbs === rect.r1 && cIdx === rect.c1;
+          const isFrozen = isFrozenCol(cIdx);
+          const cellError = isEditing && editError ? editError : errorByCell.get(`${r.id}:${col.id}`);
+          const overlay = cellSelected ? SEL_FILL : isHit ? HIT_FILL : undefined; // ikke hvit ved redigering
 
           return (
             <div
-              key={r.id}
-              onDragOver={(e) => e.preventDefault()}
-              onDrop={(e) => onRowDrop(e, rAbs)}
+              key={col.id}
+              id={cellDomId(rAbs, cIdx)}
+              role="gridcell"
+              aria-colindex={cIdx + 2}
+              aria-selected={cellSelected}
+              aria-readonly={readonly || !canEditCell(col, r) || undefined}
+              aria-invalid={!!cellError || !!formulaError || undefined}
+              data-cell={`${r.id}:${col.id}`}
+              title={cellError ?? (formulaError ? tr(formulaError.key, formulaError.params) : undefined) ?? (isComputedCell(r.id, col.id) ? tr('grid.computed') : undefined)}
+              onMouseDown={(e) => onCellMouseDown(e, rAbs, cIdx)}
+              onMouseEnter={(e) => onCellMouseEnter(e, rAbs, cIdx)}
+              onDoubleClick={(e) => onCellDoubleClick(e, rAbs, cIdx)}
+              onContextMenu={(e) => onRowContextMenu(e, rAbs, cIdx)}
               style={{
-                display: 'grid',
-                gridTemplateColumns: gridCols,
-                borderBottom: `1px solid ${BORDER_H}`,
-                height: rowHeight,
-                lineHeight: `${rowHeight - 10}px`,
-                background: isSummary ? '#0d1324' : undefined,
-                opacity: isSummary ? 0.95 : 1,
-                fontWeight: fontWeightFor(v.hasChildren),
-                fontStyle: fontStyleFor(v.level),
-                fontSize: fontSizeForLevel(v.level),
+                padding: '6px 10px', // samme uansett, så editor fyller cella
+                borderRight: cIdx === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
+                whiteSpace: col.wrap ? 'pre-wrap' : 'nowrap',
+                overflowWrap: col.wrap ? 'anywhere' : undefined,
+                overflow: 'hidden',
+                textOverflow: col.wrap ? undefined : 'ellipsis',
+                // Frosne celler trenger tett bakgrunn så innhold ikke skinner gjennom ved scrolling
+                backgroundColor: isEditing ? t.editorBg : isFrozen ? (isSummary ? SUMMARY_BG : BODY_BG) : undefined,
+                backgroundImage: overlay ? `linear-gradient(${overlay}, ${overlay})` : undefined,
+                outline: isCurrentHit ? `2px solid ${HIT_OUT}`
+                  : isEditing && editError ? `1px solid ${ERR}`
+                  : cellSelected ? `1px solid ${SEL_OUT}`
+                  : inFillPreview(rAbs, cIdx) ? `1px dashed ${SEL_OUT}` : 'none',
+                outlineOffset: -1,
+                position: 'relative' as const,
+                zIndex: 0,
+                ...frozenStyle(cIdx, 1),
+                cursor: isEditing ? 'text' : 'default',
+                color: isEditing ? t.editorFg : formulaError ? ERR : undefined,
               }}
             >
-              {/* # kolonne: caret + drag + nummer */}
-              <div
-                draggable={!isSummary}
-                onDragStart={(e) => onRowDragStart(e, rAbs)}
-                title={isSummary ? 'Oppsummeringsrad' : 'Dra for å flytte rad'}
-                style={{
-                  display: 'flex',
-                  alignItems: 'center',
-                  gap: 6,
-                  justifyContent: 'center',
-                  borderRight: `1px solid ${BORDER_V}`,
-                  background: '#111827',
-                  color: '#9ca3af',
-                  cursor: isSummary ? 'default' : 'grab',
-                  position: 'sticky',
-                  left: 0,
-                  zIndex: 2,
-                  padding: '0 4px',
-                }}
-                onMouseDown={(e) => { e.stopPropagation(); focusRoot(); }}
-              >
-                {treeMode ? (
-                  <span
-                    onMouseDown={(e) => e.stopPropagation()}
-                    onClick={(e) => { e.preventDefault(); e.stopPropagation(); if (v.hasChildren) toggleExpand(r.id); }}
-                    style={{
-                      fontSize: 10, lineHeight: '10px', width: 10, textAlign: 'center',
-                      opacity: v.hasChildren ? 0.9 : 0.25, cursor: v.hasChildren ? 'pointer' : 'default', userSelect: 'none',
-                    }}
-                    title={v.hasChildren ? (expanded.has(r.id) ? 'Kollaps' : 'Ekspander') : undefined}
-                  >
-                    {v.hasChildren ? (expanded.has(r.id) ? '▾' : '▸') : '•'}
-                  </span>
-                ) : null}
-                <span>{empty ? '' : (rAbs + 1)}</span>
-              </div>
-
-              {/* Data-celler */}
-              {allCols.map((col, cIdx) => {
-                const cellSelected = isSel(rAbs, cIdx);
-                const isEditing = editing && editing.rowId === r.id && editing.colId === col.id;
-                const value = r[col.id];
-                const formatted = col.format ? col.format(value, r) : value ?? '';
-                const isFirstDataCol = cIdx === 0;
-
-                return (
-                  <div
-                    key={col.id}
-                    data-cell={`${r.id}:${col.id}`}
-                    onMouseDown={(e) => onCellMouseDown(e, rAbs, cIdx)}
-                    onMouseEnter={(e) => onCellMouseEnter(e, rAbs, cIdx)}
-                    onDoubleClick={(e) => onCellDoubleClick(e, rAbs, cIdx)}
-                    style={{
-                      padding: '6px 10px', // samme uansett, så editor fyller cella
-                      borderRight: cIdx === allCols.length - 1 ? 'none' : `1px solid ${BORDER_V}`,
-                      whiteSpace: 'nowrap',
-                      overflow: 'hidden',
-                      textOverflow: 'ellipsis',
-                      background: cellSelected ? SEL_FILL : undefined, // ikke hvit ved redigering
-                      outline: cellSelected ? `1px solid ${SEL_OUT}` : 'none',
-                      outlineOffset: -1,
-                      position: freezeFirstColumn && cIdx === 0 ? 'sticky' as const : undefined,
-                      left: freezeFirstColumn && cIdx === 0 ? 40 : undefined,
-                      zIndex: freezeFirstColumn && cIdx === 0 ? 1 : 0,
-                      cursor: isEditing ? 'text' : 'default',
-                    }}
-                  >
-                    {treeMode && isFirstDataCol ? (
-                      <span style={{ display: 'inline-block', marginLeft: indentPx }}>
-                        {isEditing
-                          ? renderEditor(col, editing!.draft, d => setEditing(e => (e ? { ...e, draft: d } : e)))
-                          : formatted}
-                      </span>
-                    ) : (
-                      <>
-                        {isEditing
-                          ? renderEditor(col, editing!.draft, d => setEditing(e => (e ? { ...e, draft: d } : e)))
-                          : formatted}
-                      </>
-                    )}
-                  </div>
-                );
-              })}
+              {(treeMode || grouping) && isFirstDataCol ? (
+                <span style={{ display: 'inline-block', marginLeft: indentPx }}>
+                  {isEditing
+                    ? renderEditor(col, r, editing!.draft, d => setEditing(e => (e ? { ...e, draft: d } : e)))
+                    : renderValue(col, r, value, formatted, cellSelected, !!v.group || !!formulaError)}
+                </span>
+              ) : (
+                <>
+                  {isEditing
+                    ? renderEditor(col, r, editing!.draft, d => setEditing(e => (e ? { ...e, draft: d } : e)))
+                    : renderValue(col, r, value, formatted, cellSelected, !!v.group || !!formulaError)}
+                </>
+              )}
+              {cellError ? (
+                <span
+                  aria-hidden
+                  style={{
+                    position: 'absolute', top: 0, right: 0, width: 0, height: 0,
+                    borderTop: `7px solid ${ERR}`, borderLeft: '7px solid transparent', pointerEvents: 'none',
+                  }}
+                />
+              ) : null}
+              {showFillHandle ? (
+                <span
+                  onMouseDown={onFillHandleMouseDown}
+                  title={tr('grid.fillHandle')}
+                  style={{
+                    position: 'absolute', right: 0, bottom: 0, width: 7, height: 7,
+                    background: SEL_OUT, cursor: 'crosshair', zIndex: 2,
+                  }}
+                />
+              ) : null}
             </div>
           );
         })}
-        <div style={{ height: padBottom }} />
       </div>
-    </div>
-  );
-
-  // helpers
+    );
+  }
+  // Egen visning (ColumnDef.render eller registeret); grupperader og formelfeil vises alltid som tekst
+  function renderValue(col: ColumnDef, row: RowLike, value: any, text: React.ReactNode, selected: boolean, plain: boolean) {
+    const Render = plain ? undefined : cellRendererFor(col);
+    if (!Render) return text;
+    return <Render value={value} text={text == null ? '' : String(text)} row={row} column={col} selected={selected} />;
+  }
+  function parseText(col: ColumnDef, text: string) {
+    if (col.formula && isFormula(text)) return text;
+    return col.parse ? col.parse(text) : coerce(col.type, text);
+  }
+  function groupCellText(v: VisibleRow, col: ColumnDef, cIdx: number) {
+    if (cIdx === 0) {
+      const g = v.group!;
+      return `${colById.get(g.colId)?.header ?? g.colId}: ${g.label} (${g.count})`;
+    }
+    const value = v.row[col.id];
+    if (value === undefined) return '';
+    return col.format && col.aggregate !== 'count' ? col.format(value, v.row) : value;
+  }
   function coerce(type: ColumnDef['type'], text: string) {
     switch (type) {
-      case 'number': return text === '' ? undefined : Number(text.replace(',', '.'));
-      case 'date':   return text || undefined;
+      case 'number': return parseNumber(text, i18n.locale);
+      case 'date':   return parseDate(text, i18n.locale);
       case 'select': return text || '';
       case 'color':  return text || '#000000';
       default:       return text;
@@ -689,29 +2312,60 @@ export default function TableCore(props: TableCoreProps) {
       default:       return '';
     }
   }
+  function applyOp(op: HistoryOp, inverse: boolean) {
+    switch (op.kind) {
+      case 'insert':
+      case 'delete': {
+        const inserts = op.kind === 'insert' ? [op.insert] : op.restore;
+        if (op.kind === 'insert' ? inverse : !inverse) props.onDeleteRows?.(inserts.flatMap(ins => ins.rows.map(r => r.id)));
+        else for (const ins of inserts) props.onInsertRows?.(ins);
+        break;
+      }
+      case 'reorderRows': {
+        const order = inverse ? op.before : op.after;
+        setRowOrder(order);
+        props.onReorderRows?.(order);
+        break;
+      }
+      case 'reorderColumns': {
+        const order = inverse ? op.before : op.after;
+        setColOrder(order);
+        props.onReorderColumns?.(order);
+        emitView({ columnOrder: order });
+        break;
+      }
+    }
+  }
   function applyActionForward(action: HistoryAction) {
-    if (!props.onPatch) return;
-    for (const ch of action.changes) props.onPatch({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.oldValue, nextValue: ch.nextValue });
+    for (const ch of action.changes) props.onPatch?.({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.oldValue, nextValue: ch.nextValue });
+    for (const op of action.ops ?? []) applyOp(op, false);
     props.onCommit?.();
   }
   function applyActionInverse(action: HistoryAction) {
-    if (!props.onPatch) return;
-    for (const ch of action.changes) props.onPatch({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.nextValue, nextValue: ch.oldValue });
+    for (const op of [...(action.ops ?? [])].reverse()) applyOp(op, true);
+    for (const ch of [...action.changes].reverse()) props.onPatch?.({ rowId: ch.rowId, colId: ch.colId, oldValue: ch.nextValue, nextValue: ch.oldValue });
     props.onCommit?.();
   }
+  // Utfør og registrer som én angre-operasjon; det appen selv pusher underveis (f.eks. fra onPatch) blir med
+  function commitAction(action: HistoryAction, coalesceKey?: string) {
+    history.transaction(() => {
+      applyActionForward(action);
+      history.push(action);
+    }, { coalesceKey });
+  }
 
   // Tree mutasjoner
   function setParent(rowId: string, newParentId: string | null) {
     const oldParent = parentOf.get(rowId) ?? null;
     if (oldParent === newParentId) return;
-    props.onPatch?.({ rowId, colId: PARENT_COL_ID, oldValue: oldParent, nextValue: newParentId });
+    commitAction({ changes: [{ rowId, colId: parentKey, oldValue: oldParent, nextValue: newParentId }] });
   }
   function indentRow(rowId: string, selIdx: number) {
     const before = visible.slice(0, selIdx).reverse();
     const parentCandidate = before.find(v => !v.isSummary)?.row?.id ?? null;
     if (!parentCandidate) return;
     setParent(rowId, parentCandidate);
-    setExpanded(prev => new Set(prev).add(parentCandidate));
+    if (!expanded.has(parentCandidate)) applyExpanded(new Set(expanded).add(parentCandidate));
   }
   function outdentRow(rowId: string) {
     const parent = parentOf.get(rowId);
@@ -730,11 +2384,12 @@ export default function TableCore(props: TableCoreProps) {
       if ((parentOf.get(candidateId) ?? null) === parent) {
         const [m] = order.splice(idx, 1);
         order.splice(j, 0, m);
-        setRowOrder(order);
-        props.onReorderRows?.(order);
+        commitAction({ changes: [], ops: [{ kind: 'reorderRows', before: rowOrder, after: order }] });
         break;
       }
       j += (delta < 0 ? -1 : 1);
     }
   }
 }
+
+export default React.forwardRef(TableCore);
@@ -0,0 +1,109 @@
+import type { Aggregate, ColumnDef } from '../types';
+import { compareByType, isEmptyValue, toTime } from './sorting';
+import { FormulaError } from './formula';
+
+/**
+ * Aggregering per kolonne (ColumnDef.aggregate) for grupperader, oppsummeringsrader,
+ * foreldrerader i tremodus og totalraden.
+ * Tomme verdier hoppes over; count teller ikke-tomme verdier. En formelfeil blant verdiene gir
+ * samme feil som resultat (som i regneark), unntatt for count. Det aggregeres alltid over
+ * løvrader (datarader uten dataunderrader), så nivåer i treet ikke telles dobbelt.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+const round = (n: number) => Math.round(n * 1e10) / 1e10;
+
+function numbers(values: any[]): number[] {
+  return values.map(v => (typeof v === 'number' ? v : Number(v))).filter(n => !isNaN(n));
+}
+
+export function aggregateValues(col: ColumnDef, agg: Aggregate, values: any[], rows: Row[]): any {
+  if (typeof agg === 'function') return agg(values, rows);
+  const present = values.filter(v => !isEmptyValue(v));
+  const failed = agg !== 'count' && present.find(v => v instanceof FormulaError);
+  if (failed) return failed;
+  switch (agg) {
+    case 'count':
+      return present.length;
+    case 'sum': {
+      const ns = numbers(present);
+      return ns.length ? round(ns.reduce((a, b) => a + b, 0)) : undefined;
+    }
+    case 'avg': {
+      const ns = numbers(present);
+      return ns.length ? round(ns.reduce((a, b) => a + b, 0) / ns.length) : undefined;
+    }
+    case 'min':
+    case 'max': {
+      if (!present.length) return undefined;
+      const sign = agg === 'min' ? 1 : -1;
+      return present.reduce((best, v) => (sign * compareByType(col, v, best) < 0 ? v : best));
+    }
+    case 'earliest':
+    case 'latest': {
+      const dated = present.filter(v => toTime(v) !== null);
+      if (!dated.length) return undefined;
+      const sign = agg === 'earliest' ? 1 : -1;
+      return dated.reduce((best, v) => (sign * (toTime(v)! - toTime(best)!) < 0 ? v : best));
+    }
+  }
+}
+
+/** Aggregerte verdier for radene, kun for kolonner med aggregate. */
+export function aggregateRows(cols: ColumnDef[], rows: Row[]): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const col of cols) {
+    if (!col.aggregate) continue;
+    out[col.id] = aggregateValues(col, col.aggregate, rows.map(r => r[col.id]), rows);
+  }
+  return out;
+}
+
+/**
+ * Beregnede verdier per rad-id:
+ * - oppsummeringsrader aggregerer over forelderens undertre (på rotnivå over hele tabellen),
+ * - foreldrerader (når parents = true) aggregerer over sitt eget undertre.
+ * Bare kolonner med aggregate er med; radens egne verdier i disse kolonnene overstyres.
+ */
+export function computeTreeAggregates(
+  cols: ColumnDef[],
+  idToRow: Map<string, Row>,
+  childrenOf: Map<string | null, string[]>,
+  isSummary: (row: Row) => boolean,
+  parents: boolean,
+): Map<string, Record<string, any>> {
+  const out = new Map<string, Record<string, any>>();
+  const aggCols = cols.filter(c => c.aggregate);
+  if (!aggCols.length) return out;
+
+  const dataChildren = (id: string | null) =>
+    (childrenOf.get(id) ?? []).filter(k => { const r = idToRow.get(k); return !!r && !isSummary(r); });
+  const leafCache = new Map<string | null, Row[]>();
+  const visiting = new Set<string | null>();
+  function leavesUnder(id: string | null): Row[] {
+    const cached = leafCache.get(id);
+    if (cached) return cached;
+    if (visiting.has(id)) return []; // vern mot sykler i parentId
+    visiting.add(id);
+    const kids = dataChildren(id);
+    const res = kids.length || id === null
+      ? kids.flatMap(leavesUnder)
+      : [idToRow.get(id)!];
+    visiting.delete(id);
+    leafCache.set(id, res);
+    return res;
+  }
+
+  for (const [parent, kids] of childrenOf) {
+    for (const id of kids) {
+      const r = idToRow.get(id);
+      if (r && isSummary(r)) out.set(id, aggregateRows(aggCols, leavesUnder(parent)));
+    }
+    const p = parent === null ? undefined : idToRow.get(parent);
+    if (parents && p && !isSummary(p) && dataChildren(p.id).length) {
+      out.set(p.id, aggregateRows(aggCols, leavesUnder(p.id)));
+    }
+  }
+  return out;
+}
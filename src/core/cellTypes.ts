@@ -0,0 +1,28 @@
+import type { CellEditor, CellRenderer, ColumnDef } from '../types';
+
+/**
+ * Globalt register for egne celletyper: visning og editor under et navn.
+ * Kolonner bruker dem med `type: 'custom', customType: 'progress'`; også innebygde typer
+ * ('number', 'date' …) kan få ny visning/editor ved å registreres under sitt navn.
+ * ColumnDef.render/editor går foran registeret. Registrer før tabellen rendres.
+ */
+
+export type CellTypeDef = {
+  render?: CellRenderer;
+  editor?: CellEditor;
+};
+
+const registry = new Map<string, CellTypeDef>();
+
+/** Registrerer (eller erstatter) en celletype. Gir en funksjon som fjerner registreringen igjen. */
+export function registerCellType(name: string, def: CellTypeDef): () => void {
+  registry.set(name, def);
+  return () => { if (registry.get(name) === def) registry.delete(name); };
+}
+
+export const getCellType = (name: string) => registry.get(name);
+
+const typeOf = (col: ColumnDef) => registry.get(col.customType ?? col.type);
+
+export const cellRendererFor = (col: ColumnDef): CellRenderer | undefined => col.render ?? typeOf(col)?.render;
+export const cellEditorFor = (col: ColumnDef): CellEditor | undefined => col.editor ?? typeOf(col)?.editor;
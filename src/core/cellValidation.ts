@@ -0,0 +1,49 @@
+import type { CellError, ColumnDef } from '../types';
+import { CodedError } from '../i18n/codes';
+import { isFormula } from './formula';
+
+/**
+ * Cellevalidering via ColumnDef.validate.
+ * Validatoren får raden slik den blir etter endringen, så regler som
+ * sammenligner felt (f.eks. start/slutt) ser den nye verdien.
+ * Tallkolonner sjekkes i tillegg for tekst som ikke kunne tolkes som tall (formler unntatt).
+ */
+
+type Row = { id: string; [key: string]: any };
+
+function typeError(col: ColumnDef, value: any): Error | undefined {
+  if (col.type !== 'number') return undefined;
+  const invalid = (typeof value === 'string' && value.trim() !== '' && !isFormula(value))
+    || (typeof value === 'number' && isNaN(value));
+  return invalid ? new CodedError('validation.notANumber', { text: String(value) }) : undefined;
+}
+
+export function validateCell(col: ColumnDef, row: Row, value: any): Error | undefined {
+  const invalid = typeError(col, value);
+  if (invalid) return invalid;
+  if (!col.validate) return undefined;
+  const res = col.validate(value, { ...row, [col.id]: value });
+  return res instanceof Error ? res : undefined;
+}
+
+/** Alle gjeldende feil, rad for rad i gitt rekkefølge. describe gir teksten (oversatt) for en feil. */
+export function collectErrors(
+  rows: Row[],
+  cols: ColumnDef[],
+  skipRow: (row: Row) => boolean,
+  describe: (err: Error) => string = err => err.message,
+): CellError[] {
+  const validated = cols.filter(c => c.validate || c.type === 'number');
+  if (!validated.length) return [];
+  const out: CellError[] = [];
+  for (const row of rows) {
+    if (skipRow(row)) continue;
+    for (const col of validated) {
+      const err = validateCell(col, row, row[col.id]);
+      if (!err) continue;
+      const coded = err instanceof CodedError ? { code: err.code, params: err.params } : undefined;
+      out.push({ rowId: row.id, colId: col.id, message: describe(err), ...coded });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,104 @@
+/**
+ * Utvekslingsformater for utklippstavlen.
+ * - TSV med anførselstegn (som Excel/Google Sheets): celler med tab, linjeskift eller " pakkes i "…" og " dobles.
+ * - CSV (eksport av markering) etter samme regler, med komma (eller valgt skilletegn) mellom feltene.
+ * - HTML-tabeller: skrives med rå verdi i data-value slik at kopier/lim inn i tabellen er tapsfritt,
+ *   og leses fra Excel/Sheets/Word (colspan/rowspan fylles ut med tomme celler).
+ */
+
+export type ClipCell = {
+  text: string;   // det som vises/limes inn i andre programmer
+  value?: string; // rå verdi når den avviker fra text
+};
+
+function quoteField(s: string, sep = '\t'): string {
+  return /[\n\r"]/.test(s) || s.includes(sep) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toTSV(matrix: string[][]): string {
+  return matrix.map(row => row.map(s => quoteField(s)).join('\t')).join('\n');
+}
+
+export function toCSV(matrix: string[][], sep = ','): string {
+  return matrix.map(row => row.map(s => quoteField(s, sep)).join(sep)).join('\r\n');
+}
+
+export function parseTSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = 0;
+  const n = text.length;
+  let quoted = false;
+  let fieldStart = true;
+
+  while (i < n) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { field += '"'; i += 2; continue; }
+        quoted = false; i++; continue;
+      }
+      field += ch; i++; continue;
+    }
+    if (fieldStart && ch === '"') { quoted = true; fieldStart = false; i++; continue; }
+    if (ch === '\t') { row.push(field); field = ''; fieldStart = true; i++; continue; }
+    if (ch === '\r' || ch === '\n') {
+      row.push(field); rows.push(row);
+      row = []; field = ''; fieldStart = true;
+      i += ch === '\r' && text[i + 1] === '\n' ? 2 : 1;
+      continue;
+    }
+    field += ch; fieldStart = false; i++;
+  }
+  // Avsluttende linjeskift gir ikke en ekstra tom rad
+  if (!fieldStart || field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+}
+
+function escapeHTML(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+export function toHTMLTable(matrix: ClipCell[][]): string {
+  const body = matrix.map(row => '<tr>' + row.map(c => {
+    const attr = c.value !== undefined && c.value !== c.text ? ` data-value="${escapeHTML(c.value)}"` : '';
+    const text = escapeHTML(c.text).replace(/\n/g, '<br>');
+    return `<td${attr}>${text}</td>`;
+  }).join('') + '</tr>').join('');
+  return `<table><tbody>${body}</tbody></table>`;
+}
+
+const BR = '\u0001';
+
+/** Første tabell i HTML-en som matrise, eller null hvis det ikke finnes noen tabell. */
+export function parseHTMLTable(html: string): string[][] | null {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const table = doc.querySelector('table');
+  if (!table) return null;
+  const out: string[][] = [];
+  table.querySelectorAll('tr').forEach((tr, r) => {
+    out[r] = out[r] ?? [];
+    let c = 0;
+    tr.querySelectorAll('td, th').forEach(cell => {
+      while (out[r][c] !== undefined) c++; // hopp over plasser fylt av rowspan
+      // Vanlig HTML-mellomrom kollapses; bare <br> blir linjeskift
+      cell.querySelectorAll('br').forEach(br => br.replaceWith(BR));
+      const raw = cell.getAttribute('data-value');
+      const text = raw ?? (cell.textContent ?? '')
+        .replace(/[\s\u00a0]+/g, ' ')
+        .split(BR).map(line => line.trim()).join('\n')
+        .trim();
+      const colspan = Math.max(1, Number(cell.getAttribute('colspan')) || 1);
+      const rowspan = Math.max(1, Number(cell.getAttribute('rowspan')) || 1);
+      for (let dr = 0; dr < rowspan; dr++) {
+        const target = (out[r + dr] = out[r + dr] ?? []);
+        for (let dc = 0; dc < colspan; dc++) target[c + dc] = dr === 0 && dc === 0 ? text : '';
+      }
+      c += colspan;
+    });
+  });
+  // Jevn ut hull og bredder
+  const width = Math.max(0, ...out.map(row => row.length));
+  return out.map(row => Array.from({ length: width }, (_, i) => row[i] ?? ''));
+}
@@ -0,0 +1,82 @@
+import { addDays, diffDaysInclusive } from '../domain/durationRules';
+import { isFormula } from './formula';
+
+/**
+ * Autofill (fyllhåndtak / Ctrl+D / Ctrl+R).
+ * - To eller flere tall med fast steg → tallrekke (1, 2 → 3, 4 …).
+ * - Datoer (YYYY-MM-DD) → fast steg i dager, f.eks. uke (en enkelt dato øker med 1 dag, oppover/mot venstre minker den).
+ * - Koder med tall til slutt (A1, A2 → A3; en enkelt kode øker med 1 på samme måte), nuller bevares (A09 → A10).
+ * - Formler («=qty*3») kopieres som de er; kolonnereferanser gjelder raden de står i, så de følger med.
+ * - Ellers kopieres kildeverdiene syklisk.
+ */
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CODE = /^(.*?)(\d+)$/;
+
+const round = (n: number) => Math.round(n * 1e10) / 1e10;
+
+function constantStep(nums: number[]): number | null {
+  if (nums.length < 2) return null;
+  const step = round(nums[1] - nums[0]);
+  for (let i = 2; i < nums.length; i++) {
+    if (round(nums[i] - nums[i - 1]) !== step) return null;
+  }
+  return step;
+}
+
+/** Gjenta kildeverdiene uten rekkedeteksjon (Ctrl+D / Ctrl+R). */
+export function repeatValues(source: any[], count: number): any[] {
+  return Array.from({ length: count }, (_, i) => source[i % source.length]);
+}
+
+function numberSeries(source: any[], count: number): any[] | null {
+  if (!source.every(v => typeof v === 'number' && isFinite(v))) return null;
+  const step = constantStep(source);
+  if (step === null) return null;
+  const last = source[source.length - 1] as number;
+  return Array.from({ length: count }, (_, i) => round(last + step * (i + 1)));
+}
+
+function dateSeries(source: any[], count: number, direction: 1 | -1): any[] | null {
+  if (!source.every(v => typeof v === 'string' && ISO_DATE.test(v))) return null;
+  let step: number = direction;
+  if (source.length > 1) {
+    const offsets = source.map(v => (diffDaysInclusive(source[0], v) ?? 1) - 1);
+    const s = constantStep(offsets);
+    if (s === null) return null;
+    step = s;
+  }
+  const last = source[source.length - 1] as string;
+  return Array.from({ length: count }, (_, i) => addDays(last, step * (i + 1)));
+}
+
+function codeSeries(source: any[], count: number, direction: 1 | -1): any[] | null {
+  const parts = source.map(v => (typeof v === 'string' ? CODE.exec(v) : null));
+  if (parts.some(p => !p)) return null;
+  const prefix = parts[0]![1];
+  if (parts.some(p => p![1] !== prefix)) return null;
+  const nums = parts.map(p => Number(p![2]));
+  const step = source.length > 1 ? constantStep(nums) : direction;
+  if (step === null) return null;
+  const padded = parts.some(p => p![2].length > 1 && p![2].startsWith('0'));
+  const width = padded ? Math.max(...parts.map(p => p![2].length)) : 0;
+  const last = nums[nums.length - 1];
+  return Array.from({ length: count }, (_, i) => {
+    const n = last + step * (i + 1);
+    if (n < 0) return source[i % source.length];
+    return prefix + String(n).padStart(width, '0');
+  });
+}
+
+/**
+ * Neste `count` verdier etter `source` (i den rekkefølgen de fylles).
+ * direction er -1 ved fyll oppover/mot venstre; det gir steget for en enkelt dato eller kode.
+ */
+export function extendSeries(source: any[], count: number, direction: 1 | -1 = 1): any[] {
+  if (count <= 0 || !source.length) return [];
+  if (source.some(isFormula)) return repeatValues(source, count);
+  return numberSeries(source, count)
+    ?? dateSeries(source, count, direction)
+    ?? codeSeries(source, count, direction)
+    ?? repeatValues(source, count);
+}
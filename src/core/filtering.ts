@@ -0,0 +1,121 @@
+import type { ColumnDef, ColumnFilter, FilterState } from '../types';
+import { isEmptyValue } from './sorting';
+
+/**
+ * Kolonnefiltrering for TableCore.
+ * - Hver kolonne har maks ett filter; aktive filtre kombineres med AND.
+ * - Tekst matches mot formatert verdi (ColumnDef.format), uten store/små bokstaver.
+ * - I tre-modus beholdes forfedre til treff, slik at hierarkiet er lesbart.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+/** Tomt filter for en kolonnetype (brukes når filterfeltet åpnes). */
+export function emptyFilterFor(col: ColumnDef): ColumnFilter {
+  switch (col.type) {
+    case 'number': return { kind: 'number' };
+    case 'date':   return { kind: 'date', op: 'between' };
+    case 'select': return { kind: 'select', values: [] };
+    case 'color':  return { kind: 'color' };
+    default:       return { kind: 'text', op: 'contains', value: '' };
+  }
+}
+
+export function isFilterActive(f: ColumnFilter | undefined): boolean {
+  if (!f) return false;
+  switch (f.kind) {
+    case 'text':   return f.value.trim() !== '';
+    case 'number': return f.min != null || f.max != null;
+    case 'date':   return f.op === 'before' ? !!f.to : f.op === 'after' ? !!f.from : !!(f.from || f.to);
+    case 'select': return f.values.length > 0;
+    case 'color':  return !!f.value;
+  }
+}
+
+export function hasActiveFilters(filters: FilterState): boolean {
+  return Object.values(filters).some(isFilterActive);
+}
+
+function dayOf(v: any): number | null {
+  const t = Date.parse(String(v).slice(0, 10));
+  return isNaN(t) ? null : t;
+}
+
+export function matchesFilter(col: ColumnDef, row: Row, f: ColumnFilter): boolean {
+  if (!isFilterActive(f)) return true;
+  const value = row[col.id];
+
+  switch (f.kind) {
+    case 'text': {
+      if (isEmptyValue(value)) return false;
+      const text = (col.format ? col.format(value, row) : String(value)).toLocaleLowerCase();
+      const needle = f.value.trim().toLocaleLowerCase();
+      if (f.op === 'equals') return text === needle;
+      if (f.op === 'startsWith') return text.startsWith(needle);
+      return text.includes(needle);
+    }
+    case 'number': {
+      if (isEmptyValue(value)) return false;
+      const n = Number(value);
+      if (isNaN(n)) return false;
+      if (f.min != null && n < f.min) return false;
+      if (f.max != null && n > f.max) return false;
+      return true;
+    }
+    case 'date': {
+      const d = isEmptyValue(value) ? null : dayOf(value);
+      if (d === null) return false;
+      const from = f.from ? dayOf(f.from) : null;
+      const to = f.to ? dayOf(f.to) : null;
+      if (f.op === 'before') return to === null || d < to;
+      if (f.op === 'after') return from === null || d > from;
+      return (from === null || d >= from) && (to === null || d <= to);
+    }
+    case 'select':
+      return f.values.includes(value ?? '');
+    case 'color':
+      return String(value ?? '').toLowerCase() === String(f.value).toLowerCase();
+  }
+}
+
+export function rowMatchesFilters(filters: FilterState, cols: Map<string, ColumnDef>, row: Row): boolean {
+  for (const colId of Object.keys(filters)) {
+    const col = cols.get(colId);
+    if (!col) continue;
+    if (!matchesFilter(col, row, filters[colId])) return false;
+  }
+  return true;
+}
+
+/**
+ * Finn rad-id'er som skal vises når filtre er aktive.
+ * Treff tar med seg alle forfedre. Oppsummeringsrader testes ikke selv,
+ * men vises når parent vises (eller på toppnivå når noe traff).
+ */
+export function filterRowIds(
+  ids: string[],
+  idToRow: Map<string, Row>,
+  parentOf: (id: string) => string | null,
+  test: (row: Row) => boolean,
+  isSummary: (row: Row) => boolean,
+): Set<string> {
+  const keep = new Set<string>();
+  const summaries: string[] = [];
+  for (const id of ids) {
+    const r = idToRow.get(id);
+    if (!r) continue;
+    if (isSummary(r)) { summaries.push(id); continue; }
+    if (!test(r)) continue;
+    let cur: string | null = id;
+    while (cur && !keep.has(cur)) {
+      keep.add(cur);
+      cur = parentOf(cur);
+    }
+  }
+  const anyHit = keep.size > 0;
+  for (const id of summaries) {
+    const p = parentOf(id);
+    if (p === null ? anyHit : keep.has(p)) keep.add(id);
+  }
+  return keep;
+}
@@ -0,0 +1,161 @@
+import type { ColumnDef, Locale } from '../types';
+
+/**
+ * Språkavhengig visning og tolking av tall og datoer.
+ * - Visning med Intl: tusenskille, valuta/prosent (ColumnDef.numberFormat) og dd.mm.åååå (ColumnDef.dateFormat).
+ * - Tolking er tolerant for det folk skriver og limer inn: «1 234,50», «kr 1 234», «12 %», «1,234.5», «5-» (−5),
+ *   «24.12.2025», «24/12/25», «24.12» (i år) og ISO. Datoer lagres som ISO (åååå-mm-dd).
+ * - withLocaleFormat legger dette på number- og date-kolonner som ikke har egen format/parse.
+ */
+
+// Språkkoden i katalogen → Intl-locale (engelsk med dag først, som i Europa)
+const INTL_LOCALE: Record<Locale, string> = { nb: 'nb-NO', en: 'en-GB' };
+export const intlLocale = (locale: Locale) => INTL_LOCALE[locale] ?? locale;
+
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})$/;
+export const isIsoDate = (value: any) => typeof value === 'string' && ISO_DATE.test(value);
+
+export function numberFormatter(locale: Locale, options?: Intl.NumberFormatOptions) {
+  const fmt = new Intl.NumberFormat(intlLocale(locale), options);
+  return (value: any): string => {
+    if (value == null || value === '') return '';
+    return typeof value === 'number' && isFinite(value) ? fmt.format(value) : String(value);
+  };
+}
+
+export function dateFormatter(locale: Locale, options?: Intl.DateTimeFormatOptions) {
+  const tag = intlLocale(locale);
+  const base: Intl.DateTimeFormatOptions = options ?? { day: '2-digit', month: '2-digit', year: 'numeric' };
+  // Rene datoer er kalenderdager (UTC); med klokkeslett vises lokal tid
+  const dayFmt = new Intl.DateTimeFormat(tag, { ...base, timeZone: 'UTC' });
+  const timeFmt = new Intl.DateTimeFormat(tag, base);
+  return (value: any): string => {
+    if (value == null || value === '') return '';
+    const s = String(value);
+    const iso = ISO_DATE.exec(s);
+    if (iso) return dayFmt.format(Date.UTC(+iso[1], +iso[2] - 1, +iso[3]));
+    const t = /^\d{4}-\d{2}-\d{2}T/.test(s) ? Date.parse(s) : NaN;
+    return isNaN(t) ? s : timeFmt.format(t);
+  };
+}
+
+const separatorCache = new Map<Locale, { decimal: string; group: string }>();
+function separators(locale: Locale) {
+  let seps = separatorCache.get(locale);
+  if (!seps) {
+    const parts = new Intl.NumberFormat(intlLocale(locale)).formatToParts(12345.6);
+    seps = {
+      decimal: parts.find(p => p.type === 'decimal')?.value ?? '.',
+      group: parts.find(p => p.type === 'group')?.value ?? ',',
+    };
+    separatorCache.set(locale, seps);
+  }
+  return seps;
+}
+
+// Fortegn/parentes, valutategn foran eller bak, og sifrene samlet med skilletegn – ikke bokstaver mellom sifre
+const NUMBER_TEXT = /^\(?[-+\u2212]?[^\d.,()]*?[-+\u2212]?[\d.,]+[^\d.,()]*\)?$/;
+
+/**
+ * Tall fra tekst. Tom tekst gir undefined; tekst som ikke er et tall («abc», «12abc34») beholdes
+ * slik at validering kan flagge den, på samme måte som parseDate.
+ * Med både punktum og komma er det siste desimaltegnet; står bare ett av dem, er det tusenskille
+ * når det gjentas (1.234.567) eller er språkets tusenskille foran nøyaktig tre sifre (en: 1,234).
+ * Prosentkolonner lagrer brøken: «12» og «12 %» gir 0.12.
+ */
+export function parseNumber(text: string, locale: Locale, percent = false): number | string | undefined {
+  const trimmed = text.trim();
+  if (!trimmed) return undefined;
+  const compact = trimmed.replace(/\s/g, ''); // også hardt mellomrom, som Intl bruker som tusenskille (nb)
+  if (/^[-+]?\d+(\.\d+)?e[-+]?\d+$/i.test(compact)) return Number(compact) / (percent ? 100 : 1);
+  if (!NUMBER_TEXT.test(compact) || !/\d/.test(compact)) return trimmed;
+  // Minus foran («-5», «kr -5») eller bak («5-», som i regnskap); begge deler er ikke et tall
+  const leading = /^[^\d]*[-\u2212]/.test(compact), trailing = /[-\u2212][^\d]*$/.test(compact);
+  if (leading && trailing) return trimmed;
+  const negative = /^\(.*\)$/.test(compact) || leading || trailing;
+  const s = compact.replace(/[^\d.,]/g, ''); // valutategn, prosent, fortegn
+
+  const { decimal, group } = separators(locale);
+  const lastDot = s.lastIndexOf('.'), lastComma = s.lastIndexOf(',');
+  let dec: string | null = null;
+  if (lastDot >= 0 && lastComma >= 0) dec = lastDot > lastComma ? '.' : ',';
+  else if (lastDot >= 0 || lastComma >= 0) {
+    const sep = lastDot >= 0 ? '.' : ',';
+    const repeated = s.indexOf(sep) !== s.lastIndexOf(sep);
+    const grouped = sep !== decimal && sep === group && /^\d{1,3}([.,]\d{3})+$/.test(s);
+    dec = repeated || grouped ? null : sep;
+  }
+  const cut = dec ? s.lastIndexOf(dec) : s.length;
+  const int = s.slice(0, cut).replace(/[.,]/g, '');
+  const frac = s.slice(cut + 1).replace(/[.,]/g, '');
+  const n = Number(`${int || '0'}.${frac || '0'}`);
+  return (negative ? -n : n) / (percent ? 100 : 1);
+}
+
+const dayFirstCache = new Map<Locale, boolean>();
+function dayFirst(locale: Locale) {
+  let first = dayFirstCache.get(locale);
+  if (first === undefined) {
+    const types = new Intl.DateTimeFormat(intlLocale(locale)).formatToParts(0).map(p => p.type);
+    first = types.indexOf('day') < types.indexOf('month');
+    dayFirstCache.set(locale, first);
+  }
+  return first;
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  const t = new Date(Date.UTC(y, m - 1, d));
+  if (t.getUTCFullYear() !== y || t.getUTCMonth() !== m - 1 || t.getUTCDate() !== d) return null;
+  return `${String(y).padStart(4, '0')}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+/**
+ * Dato fra tekst som ISO (åååå-mm-dd). Dag/måned-rekkefølgen følger språket; år med to sifre er 2000-tallet,
+ * og uten år brukes inneværende år. Tekst som ikke kan tolkes, beholdes slik at validering kan flagge den.
+ */
+export function parseDate(text: string, locale: Locale): string | undefined {
+  const s = text.trim();
+  if (!s) return undefined;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:T.*)?$/.exec(s);
+  if (iso) return isoDate(+iso[1], +iso[2], +iso[3]) ?? s;
+
+  let a: number, b: number, y: number;
+  const parts = /^(\d{1,2})[./\- ](\d{1,2})(?:[./\- ](\d{4}|\d{2}))?\.?$/.exec(s);
+  const packed = /^(\d{2})(\d{2})(\d{4})$/.exec(s); // 24122025
+  if (parts) {
+    a = +parts[1]; b = +parts[2];
+    y = !parts[3] ? new Date().getFullYear() : parts[3].length === 2 ? 2000 + +parts[3] : +parts[3];
+  } else if (packed) {
+    a = +packed[1]; b = +packed[2]; y = +packed[3];
+  } else return s;
+  const [d, m] = dayFirst(locale) ? [a, b] : [b, a];
+  return isoDate(y, m, d) ?? s;
+}
+
+/** Tallet slik det redigeres: språkets desimaltegn, uten tusenskille og symboler (prosent som 12, ikke 0,12). */
+export function numberEditText(value: any, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  if (typeof value !== 'number' || !isFinite(value)) return value == null ? '' : String(value);
+  const n = options?.style === 'percent' ? value * 100 : value;
+  return new Intl.NumberFormat(intlLocale(locale), { useGrouping: false, maximumFractionDigits: 10 }).format(n);
+}
+
+/** Standard format/parse for number- og date-kolonner på gitt språk; kolonnens egne beholdes. */
+export function withLocaleFormat<C extends ColumnDef>(col: C, locale: Locale): C {
+  if (col.format && col.parse) return col;
+  if (col.type === 'number') {
+    const percent = col.numberFormat?.style === 'percent';
+    return {
+      ...col,
+      format: col.format ?? numberFormatter(locale, col.numberFormat),
+      parse: col.parse ?? ((text: string) => parseNumber(text, locale, percent)),
+    };
+  }
+  if (col.type === 'date') {
+    return {
+      ...col,
+      format: col.format ?? dateFormatter(locale, col.dateFormat),
+      parse: col.parse ?? ((text: string) => parseDate(text, locale)),
+    };
+  }
+  return col;
+}
@@ -0,0 +1,377 @@
+/**
+ * Formler i celler (kolonner med ColumnDef.formula): tekst som starter med "=".
+ *
+ * Syntaks:
+ * - Tall, "tekst", TRUE/FALSE
+ * - Operatorer: + - * / ^ & (sammenslåing), = <> < > <= >=, unær minus
+ * - Referanser: qty (kolonne i samme rad), [A1].qty (rad med id eller kode A1),
+ *   [A1:A5].qty (radene fra A1 til A5 i tabellens rekkefølge, for SUM o.l.)
+ * - Funksjoner: SUM, MIN, MAX, AVERAGE, COUNT, ROUND, ABS, IF, AND, OR, NOT,
+ *   DATE, TODAY, DAYS, YEAR, MONTH, DAY
+ * - Datoer er ISO-strenger (YYYY-MM-DD): dato ± tall gir ny dato, dato − dato gir antall dager.
+ *
+ * Feil vises som verdier i cella (#DIV/0!, #REF!, #NAME?, #VALUE!, #CYCLE!, #ERROR!) og
+ * smitter videre til formler som bruker dem.
+ */
+
+import type { MessageParams } from '../types';
+import type { MessageKey } from '../i18n/codes';
+
+export type FormulaErrorCode = '#ERROR!' | '#REF!' | '#NAME?' | '#VALUE!' | '#DIV/0!' | '#CYCLE!';
+
+/** Feilverdi i en celle: code vises i cella, key/params er forklaringen (oversettes ved visning). */
+export class FormulaError {
+  constructor(public code: FormulaErrorCode, public key: MessageKey, public params?: MessageParams) {}
+  toString() { return this.code; }
+}
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; row: string | null; col: string } // row null = samme rad
+  | { type: 'range'; from: string; to: string; col: string }
+  | { type: 'unary'; op: '-' | '+'; arg: FormulaNode }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] };
+
+export const isFormula = (v: any): v is string => typeof v === 'string' && v.startsWith('=');
+
+// ---------- Tokenisering ----------
+
+type Token =
+  | { t: 'num'; v: number }
+  | { t: 'str'; v: string }
+  | { t: 'ident'; v: string }
+  | { t: 'rowref'; v: string } // innholdet i [...]
+  | { t: 'op'; v: string };
+
+const OPS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '(', ')', ',', '.', ';'];
+
+function tokenize(src: string): Token[] {
+  const out: Token[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (/\s/.test(ch)) { i++; continue; }
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(src[i + 1] ?? ''))) {
+      const m = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(i))!;
+      out.push({ t: 'num', v: Number(m[0]) });
+      i += m[0].length;
+      continue;
+    }
+    if (ch === '"') {
+      let s = '';
+      i++;
+      while (i < src.length && !(src[i] === '"' && src[i + 1] !== '"')) {
+        if (src[i] === '"') i++; // "" i tekst
+        s += src[i++];
+      }
+      if (i >= src.length) throw new FormulaError('#ERROR!', 'formula.unterminatedString');
+      i++;
+      out.push({ t: 'str', v: s });
+      continue;
+    }
+    if (ch === '[') {
+      const end = src.indexOf(']', i);
+      if (end < 0) throw new FormulaError('#ERROR!', 'formula.missingBracket');
+      out.push({ t: 'rowref', v: src.slice(i + 1, end).trim() });
+      i = end + 1;
+      continue;
+    }
+    const ident = /^[A-Za-z_][A-Za-z0-9_]*/.exec(src.slice(i));
+    if (ident) { out.push({ t: 'ident', v: ident[0] }); i += ident[0].length; continue; }
+    const op = OPS.find(o => src.startsWith(o, i));
+    if (!op) throw new FormulaError('#ERROR!', 'formula.unknownChar', { char: ch });
+    out.push({ t: 'op', v: op });
+    i += op.length;
+  }
+  return out;
+}
+
+// ---------- Parser (rekursiv nedstigning) ----------
+
+/** Parse formelteksten (med eller uten innledende "="). Kaster FormulaError ved syntaksfeil. */
+export function parseFormula(src: string): FormulaNode {
+  const tokens = tokenize(src.startsWith('=') ? src.slice(1) : src);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const isOp = (v: string) => peek()?.t === 'op' && peek()!.v === v;
+  function expect(v: string) {
+    if (!isOp(v)) throw new FormulaError('#ERROR!', 'formula.expected', { token: v });
+    pos++;
+  }
+
+  function comparison(): FormulaNode {
+    let left = concat();
+    while (['=', '<>', '<', '>', '<=', '>='].some(isOp)) {
+      const op = tokens[pos++].v as string;
+      left = { type: 'binary', op, left, right: concat() };
+    }
+    return left;
+  }
+  function concat(): FormulaNode {
+    let left = additive();
+    while (isOp('&')) { pos++; left = { type: 'binary', op: '&', left, right: additive() }; }
+    return left;
+  }
+  function additive(): FormulaNode {
+    let left = multiplicative();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[pos++].v as string;
+      left = { type: 'binary', op, left, right: multiplicative() };
+    }
+    return left;
+  }
+  function multiplicative(): FormulaNode {
+    let left = unary();
+    while (isOp('*') || isOp('/')) {
+      const op = tokens[pos++].v as string;
+      left = { type: 'binary', op, left, right: unary() };
+    }
+    return left;
+  }
+  function unary(): FormulaNode {
+    if (isOp('-') || isOp('+')) {
+      const op = tokens[pos++].v as '-' | '+';
+      return { type: 'unary', op, arg: unary() };
+    }
+    return power();
+  }
+  function power(): FormulaNode {
+    const base = primary();
+    // høyreassosiativ: 2^3^2 = 2^(3^2)
+    if (isOp('^')) { pos++; return { type: 'binary', op: '^', left: base, right: unary() }; }
+    return base;
+  }
+  function primary(): FormulaNode {
+    const tok = tokens[pos++];
+    if (!tok) throw new FormulaError('#ERROR!', 'formula.incomplete');
+    switch (tok.t) {
+      case 'num': return { type: 'number', value: tok.v };
+      case 'str': return { type: 'string', value: tok.v };
+      case 'rowref': {
+        expect('.');
+        const col = tokens[pos++];
+        if (col?.t !== 'ident') throw new FormulaError('#ERROR!', 'formula.expectedColumn');
+        const [from, to] = tok.v.split(':').map(s => s.trim());
+        if (!from) throw new FormulaError('#ERROR!', 'formula.emptyRowRef');
+        return to !== undefined ? { type: 'range', from, to, col: col.v } : { type: 'ref', row: from, col: col.v };
+      }
+      case 'ident': {
+        if (isOp('(')) {
+          pos++;
+          const args: FormulaNode[] = [];
+          while (!isOp(')')) {
+            args.push(comparison());
+            if (isOp(',') || isOp(';')) pos++; // ; som i norsk Excel
+            else break;
+          }
+          expect(')');
+          return { type: 'call', name: tok.v.toUpperCase(), args };
+        }
+        const upper = tok.v.toUpperCase();
+        if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' };
+        return { type: 'ref', row: null, col: tok.v };
+      }
+      case 'op':
+        if (tok.v === '(') { const e = comparison(); expect(')'); return e; }
+    }
+    throw new FormulaError('#ERROR!', 'formula.unexpected', { token: tok.v });
+  }
+
+  const ast = comparison();
+  if (pos < tokens.length) throw new FormulaError('#ERROR!', 'formula.unexpected', { token: tokens[pos].v });
+  return ast;
+}
+
+/** Alle referanser i uttrykket (for avhengighetssporing). */
+export function collectRefs(ast: FormulaNode, out: FormulaNode[] = []): FormulaNode[] {
+  switch (ast.type) {
+    case 'ref': case 'range': out.push(ast); break;
+    case 'unary': collectRefs(ast.arg, out); break;
+    case 'binary': collectRefs(ast.left, out); collectRefs(ast.right, out); break;
+    case 'call': ast.args.forEach(a => collectRefs(a, out)); break;
+  }
+  return out;
+}
+
+// ---------- Evaluering ----------
+
+export type FormulaContext = {
+  ref: (row: string | null, col: string) => any;              // FormulaError ved ukjent rad/kolonne
+  range: (from: string, to: string, col: string) => any[] | FormulaError;
+  today?: () => string;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const isDate = (v: any): v is string => typeof v === 'string' && ISO_DATE.test(v);
+const dayNumber = (iso: string) => Math.round(Date.parse(`${iso}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (n: number) => new Date(n * DAY_MS).toISOString().slice(0, 10);
+const round = (n: number) => Math.round(n * 1e10) / 1e10;
+
+const isEmpty = (v: any) => v === null || v === undefined || v === '';
+
+function toNumber(v: any): number | FormulaError {
+  if (v instanceof FormulaError) return v;
+  if (isEmpty(v)) return 0;
+  if (typeof v === 'boolean') return v ? 1 : 0;
+  if (typeof v === 'number') return v;
+  const n = Number(String(v).replace(',', '.'));
+  return isNaN(n) ? new FormulaError('#VALUE!', 'formula.notANumber', { value: String(v) }) : n;
+}
+
+function toBool(v: any): boolean | FormulaError {
+  if (v instanceof FormulaError) return v;
+  if (typeof v === 'string' && /^(true|false)$/i.test(v)) return v.toLowerCase() === 'true';
+  const n = toNumber(v);
+  return n instanceof FormulaError ? n : n !== 0;
+}
+
+function toDay(v: any): number | FormulaError {
+  if (v instanceof FormulaError) return v;
+  if (isDate(v)) return dayNumber(v);
+  return new FormulaError('#VALUE!', 'formula.notADate', { value: String(v ?? '') });
+}
+
+function compare(a: any, b: any): number {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  const na = toNumber(a), nb = toNumber(b);
+  if (na instanceof FormulaError || nb instanceof FormulaError) return String(a ?? '').localeCompare(String(b ?? ''));
+  return na - nb;
+}
+
+function binary(op: string, a: any, b: any): any {
+  if (a instanceof FormulaError) return a;
+  if (b instanceof FormulaError) return b;
+  switch (op) {
+    case '&': return `${a ?? ''}${b ?? ''}`;
+    case '=': return compare(a, b) === 0;
+    case '<>': return compare(a, b) !== 0;
+    case '<': return compare(a, b) < 0;
+    case '>': return compare(a, b) > 0;
+    case '<=': return compare(a, b) <= 0;
+    case '>=': return compare(a, b) >= 0;
+  }
+  // Datoregning
+  if (op === '+' || op === '-') {
+    if (isDate(a) && isDate(b) && op === '-') return dayNumber(a) - dayNumber(b);
+    if (isDate(a) && !isDate(b)) {
+      const n = toNumber(b);
+      return n instanceof FormulaError ? n : fromDayNumber(dayNumber(a) + (op === '+' ? n : -n));
+    }
+    if (isDate(b) && op === '+') {
+      const n = toNumber(a);
+      return n instanceof FormulaError ? n : fromDayNumber(dayNumber(b) + n);
+    }
+  }
+  const x = toNumber(a), y = toNumber(b);
+  if (x instanceof FormulaError) return x;
+  if (y instanceof FormulaError) return y;
+  switch (op) {
+    case '+': return x + y;
+    case '-': return x - y;
+    case '*': return x * y;
+    case '/': return y === 0 ? new FormulaError('#DIV/0!', 'formula.divByZero') : x / y;
+    case '^': return Math.pow(x, y);
+  }
+  return new FormulaError('#ERROR!', 'formula.unknownOperator', { op });
+}
+
+/** Tallene i argumentene (områder flates ut, tomme og tekst hoppes over slik som i regneark). */
+function numbersIn(values: any[]): number[] | FormulaError {
+  const out: number[] = [];
+  for (const v of values.flat()) {
+    if (v instanceof FormulaError) return v;
+    if (isEmpty(v) || typeof v === 'boolean') continue;
+    const n = typeof v === 'number' ? v : Number(v);
+    if (!isNaN(n)) out.push(n);
+  }
+  return out;
+}
+
+type Fn = (args: FormulaNode[], ev: (n: FormulaNode) => any) => any;
+
+const withNumbers = (f: (ns: number[]) => any): Fn => (args, ev) => {
+  const ns = numbersIn(args.map(ev));
+  return ns instanceof FormulaError ? ns : f(ns);
+};
+
+const arity = (n: number, f: (...vals: any[]) => any, min = n): Fn => (args, ev) => {
+  if (args.length < min || args.length > n) return new FormulaError('#VALUE!', 'formula.argCount', { expected: min === n ? `${n}` : `${min}–${n}` });
+  const vals = args.map(ev);
+  const err = vals.find(v => v instanceof FormulaError);
+  return err ?? f(...vals);
+};
+
+const FUNCTIONS: Record<string, Fn> = {
+  SUM: withNumbers(ns => ns.reduce((a, b) => a + b, 0)),
+  MIN: withNumbers(ns => (ns.length ? Math.min(...ns) : 0)),
+  MAX: withNumbers(ns => (ns.length ? Math.max(...ns) : 0)),
+  AVERAGE: withNumbers(ns => (ns.length ? ns.reduce((a, b) => a + b, 0) / ns.length : new FormulaError('#DIV/0!', 'formula.averageEmpty'))),
+  COUNT: withNumbers(ns => ns.length),
+  ROUND: arity(2, (x, digits = 0) => {
+    const n = toNumber(x), d = toNumber(digits);
+    if (n instanceof FormulaError) return n;
+    if (d instanceof FormulaError) return d;
+    const f = Math.pow(10, Math.trunc(d));
+    return Math.sign(n) * Math.round(Math.abs(n) * f) / f;
+  }, 1),
+  ABS: arity(1, x => { const n = toNumber(x); return n instanceof FormulaError ? n : Math.abs(n); }),
+  // IF evaluerer bare grenen som velges
+  IF: (args, ev) => {
+    if (args.length < 2 || args.length > 3) return new FormulaError('#VALUE!', 'formula.ifArgs');
+    const c = toBool(ev(args[0]));
+    if (c instanceof FormulaError) return c;
+    return c ? ev(args[1]) : args[2] ? ev(args[2]) : false;
+  },
+  AND: (args, ev) => {
+    for (const a of args) { const b = toBool(ev(a)); if (b !== true) return b; }
+    return true;
+  },
+  OR: (args, ev) => {
+    for (const a of args) { const b = toBool(ev(a)); if (b instanceof FormulaError || b) return b; }
+    return false;
+  },
+  NOT: arity(1, x => { const b = toBool(x); return b instanceof FormulaError ? b : !b; }),
+  DATE: arity(3, (y, m, d) => {
+    const [ny, nm, nd] = [y, m, d].map(toNumber);
+    for (const n of [ny, nm, nd]) if (n instanceof FormulaError) return n;
+    return new Date(Date.UTC(ny as number, (nm as number) - 1, nd as number)).toISOString().slice(0, 10);
+  }),
+  DAYS: arity(2, (end, start) => {
+    const e = toDay(end), s = toDay(start);
+    if (e instanceof FormulaError) return e;
+    if (s instanceof FormulaError) return s;
+    return e - s;
+  }),
+  YEAR: arity(1, v => { const d = toDay(v); return d instanceof FormulaError ? d : Number(fromDayNumber(d).slice(0, 4)); }),
+  MONTH: arity(1, v => { const d = toDay(v); return d instanceof FormulaError ? d : Number(fromDayNumber(d).slice(5, 7)); }),
+  DAY: arity(1, v => { const d = toDay(v); return d instanceof FormulaError ? d : Number(fromDayNumber(d).slice(8, 10)); }),
+};
+
+/** Beregn et parset uttrykk. Returnerer tall, tekst, boolsk, dato (ISO) eller FormulaError. */
+export function evaluateFormula(ast: FormulaNode, ctx: FormulaContext): any {
+  function ev(n: FormulaNode): any {
+    switch (n.type) {
+      case 'number': case 'string': case 'boolean': return n.value;
+      case 'ref': return ctx.ref(n.row, n.col);
+      case 'range': return ctx.range(n.from, n.to, n.col);
+      case 'unary': {
+        const x = toNumber(ev(n.arg));
+        return x instanceof FormulaError || n.op === '+' ? x : -x;
+      }
+      case 'binary': return binary(n.op, ev(n.left), ev(n.right));
+      case 'call': {
+        if (n.name === 'TODAY') return ctx.today?.() ?? new Date().toISOString().slice(0, 10);
+        const fn = FUNCTIONS[n.name];
+        return fn ? fn(n.args, ev) : new FormulaError('#NAME?', 'formula.unknownFunction', { name: n.name });
+      }
+    }
+  }
+  const res = ev(ast);
+  if (Array.isArray(res)) return new FormulaError('#VALUE!', 'formula.rangeOutsideFunction');
+  if (typeof res === 'number') return isFinite(res) ? round(res) : new FormulaError('#VALUE!', 'formula.invalidNumber');
+  return res;
+}
@@ -0,0 +1,183 @@
+import type { ColumnDef } from '../types';
+import { FormulaError, FormulaNode, collectRefs, evaluateFormula, isFormula, parseFormula } from './formula';
+
+/**
+ * Holder parsede formler, avhengigheter og beregnede verdier mellom oppdateringer.
+ * - Endres bare celleverdier, beregnes kun endrede formler og det som (transitivt) avhenger av dem.
+ * - Nye/slettede rader, ny rekkefølge, endrede radkoder eller kolonner gir full omberegning,
+ *   siden referanser og områder da kan peke på andre celler.
+ * - Sirkulære referanser gir #CYCLE! i alle celler i sirkelen.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+type Compiled = {
+  ast: FormulaNode | null;
+  error: FormulaError | null; // syntaksfeil
+  deps: Set<string>;
+};
+
+const key = (rowId: string, colId: string) => `${rowId}\u0000${colId}`;
+
+export type FormulaValues = Map<string, Record<string, any>>; // rad-id → kolonne-id → verdi
+
+export class FormulaEngine {
+  private rows = new Map<string, Row>();
+  private order: string[] = [];
+  private byCode = new Map<string, string>();
+  private cols = new Map<string, ColumnDef>();
+  private formulaCols: ColumnDef[] = [];
+  private structure = '';
+  private compiled = new Map<string, Compiled>();
+  private dependents = new Map<string, Set<string>>();
+  private values = new Map<string, any>();
+  private evaluating = new Set<string>();
+  private result: FormulaValues = new Map();
+
+  constructor(private getRowCode: (row: Row) => string | undefined = r => r.code) {}
+
+  /** Ta inn gjeldende rader; returnerer beregnede verdier for alle formelceller. */
+  update(rows: Row[], order: string[], cols: ColumnDef[]): FormulaValues {
+    const next = new Map(rows.map(r => [r.id, r]));
+    const structure = [
+      cols.map(c => `${c.id}${c.formula ? '*' : ''}`).join(','),
+      order.join(','),
+      rows.map(r => `${r.id}=${this.getRowCode(r) ?? ''}`).join(','),
+    ].join('|');
+
+    if (structure !== this.structure) {
+      this.structure = structure;
+      this.rows = next;
+      this.order = order;
+      this.cols = new Map(cols.map(c => [c.id, c]));
+      this.formulaCols = cols.filter(c => c.formula);
+      this.byCode = new Map();
+      for (const r of rows) { const code = this.getRowCode(r); if (code) this.byCode.set(String(code), r.id); }
+      this.rebuild();
+      return this.snapshot();
+    }
+
+    // Finn endrede celler
+    const changed: string[] = [];
+    for (const [id, r] of next) {
+      const prev = this.rows.get(id);
+      if (prev === r) continue;
+      for (const c of this.cols.keys()) if (prev?.[c] !== r[c]) changed.push(key(id, c));
+    }
+    this.rows = next;
+    if (!changed.length) return this.result;
+
+    for (const k of changed) {
+      const [rowId, colId] = k.split('\u0000');
+      if (this.formulaCols.some(c => c.id === colId)) this.compile(rowId, colId);
+    }
+    const dirty = this.affected(changed);
+    dirty.forEach(k => this.values.delete(k));
+    dirty.forEach(k => { if (this.compiled.has(k)) this.valueOf(k); });
+    return this.snapshot();
+  }
+
+  private rebuild() {
+    this.compiled.clear();
+    this.dependents.clear();
+    this.values.clear();
+    for (const r of this.rows.values()) for (const c of this.formulaCols) this.compile(r.id, c.id);
+    for (const k of this.compiled.keys()) this.valueOf(k);
+  }
+
+  private compile(rowId: string, colId: string) {
+    const k = key(rowId, colId);
+    const old = this.compiled.get(k);
+    old?.deps.forEach(d => this.dependents.get(d)?.delete(k));
+    const raw = this.rows.get(rowId)?.[colId];
+    if (!isFormula(raw)) { this.compiled.delete(k); return; }
+
+    let ast: FormulaNode | null = null, error: FormulaError | null = null;
+    try { ast = parseFormula(raw); } catch (e) {
+      error = e instanceof FormulaError ? e : new FormulaError('#ERROR!', 'formula.failed', { detail: String(e) });
+    }
+    const deps = new Set<string>();
+    if (ast) {
+      for (const ref of collectRefs(ast)) {
+        if (ref.type === 'ref') {
+          const target = ref.row === null ? rowId : this.resolveRow(ref.row);
+          if (target) deps.add(key(target, ref.col));
+        } else if (ref.type === 'range') {
+          const ids = this.rangeIds(ref.from, ref.to);
+          ids?.forEach(id => deps.add(key(id, ref.col)));
+        }
+      }
+    }
+    deps.forEach(d => {
+      const set = this.dependents.get(d) ?? new Set<string>();
+      set.add(k);
+      this.dependents.set(d, set);
+    });
+    this.compiled.set(k, { ast, error, deps });
+  }
+
+  /** Cellene selv pluss alt som avhenger av dem, transitivt. */
+  private affected(start: string[]): Set<string> {
+    const out = new Set<string>(start);
+    const queue = [...start];
+    while (queue.length) {
+      const k = queue.pop()!;
+      this.dependents.get(k)?.forEach(d => { if (!out.has(d)) { out.add(d); queue.push(d); } });
+    }
+    return out;
+  }
+
+  private resolveRow(ref: string): string | undefined {
+    return this.rows.has(ref) ? ref : this.byCode.get(ref);
+  }
+
+  private rangeIds(from: string, to: string): string[] | null {
+    const a = this.resolveRow(from), b = this.resolveRow(to);
+    if (!a || !b) return null;
+    const i = this.order.indexOf(a), j = this.order.indexOf(b);
+    if (i < 0 || j < 0) return null;
+    return this.order.slice(Math.min(i, j), Math.max(i, j) + 1);
+  }
+
+  private valueOf(k: string): any {
+    const f = this.compiled.get(k);
+    const [rowId, colId] = k.split('\u0000');
+    if (!f) return this.rows.get(rowId)?.[colId];
+    if (this.values.has(k)) return this.values.get(k);
+    if (this.evaluating.has(k)) return new FormulaError('#CYCLE!', 'formula.cycle');
+    this.evaluating.add(k);
+    let v: any;
+    try {
+      v = f.error ?? evaluateFormula(f.ast!, {
+        ref: (row, col) => {
+          if (!this.cols.has(col)) return new FormulaError('#NAME?', 'formula.unknownColumn', { column: col });
+          const target = row === null ? rowId : this.resolveRow(row);
+          if (!target) return new FormulaError('#REF!', 'formula.unknownRow', { row: String(row) });
+          return this.valueOf(key(target, col));
+        },
+        range: (from, to, col) => {
+          if (!this.cols.has(col)) return new FormulaError('#NAME?', 'formula.unknownColumn', { column: col });
+          const ids = this.rangeIds(from, to);
+          if (!ids) return new FormulaError('#REF!', 'formula.unknownRange', { from, to });
+          return ids.map(id => this.valueOf(key(id, col)));
+        },
+      });
+    } finally {
+      this.evaluating.delete(k);
+    }
+    this.values.set(k, v);
+    return v;
+  }
+
+  private snapshot(): FormulaValues {
+    const out: FormulaValues = new Map();
+    for (const k of this.compiled.keys()) {
+      const [rowId, colId] = k.split('\u0000');
+      const rec = out.get(rowId) ?? {};
+      rec[colId] = this.valueOf(k);
+      out.set(rowId, rec);
+    }
+    this.result = out;
+    return out;
+  }
+}
@@ -0,0 +1,62 @@
+import type { ColumnDef, SortState } from '../types';
+import { compareByType, isEmptyValue } from './sorting';
+import { cellText } from './search';
+
+/**
+ * Gruppering på én eller flere kolonner (virtuelle grupperader).
+ * Gruppene sorteres på verdien (synkende hvis kolonnen er sortert synkende), tomme sist.
+ * Radene beholder rekkefølgen fra ids innad i gruppen.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+export type GroupNode = {
+  key: string;          // unik id for grupperaden
+  colId: string;
+  value: any;
+  label: string;
+  depth: number;
+  rowIds: string[];     // alle rader i gruppen (inkl. undergrupper)
+  children: GroupNode[] | null; // null på nederste nivå
+};
+
+export const GROUP_KEY_PREFIX = '__group:';
+export const EMPTY_GROUP_LABEL = '(tom)';
+
+export function buildGroups(
+  ids: string[],
+  idToRow: Map<string, Row>,
+  groupCols: ColumnDef[],
+  sort: SortState,
+  keyRowOf: (id: string) => Row | undefined = id => idToRow.get(id),
+  emptyLabel = EMPTY_GROUP_LABEL,
+  depth = 0,
+  parentKey = GROUP_KEY_PREFIX,
+): GroupNode[] {
+  const col = groupCols[depth];
+  if (!col) return [];
+  const byKey = new Map<string, GroupNode>();
+  for (const id of ids) {
+    const row = keyRowOf(id);
+    if (!row) continue;
+    const value = row[col.id];
+    const k = isEmptyValue(value) ? '' : String(value);
+    let g = byKey.get(k);
+    if (!g) {
+      const label = k === '' ? emptyLabel : cellText(col, row);
+      g = { key: `${parentKey}${col.id}=${k}|`, colId: col.id, value, label, depth, rowIds: [], children: null };
+      byKey.set(k, g);
+    }
+    g.rowIds.push(id);
+  }
+  const desc = sort.find(s => s.colId === col.id)?.dir === 'desc';
+  const groups = [...byKey.values()].sort((a, b) => {
+    const ea = isEmptyValue(a.value), eb = isEmptyValue(b.value);
+    if (ea || eb) return (ea ? 1 : 0) - (eb ? 1 : 0);
+    return (desc ? -1 : 1) * compareByType(col, a.value, b.value);
+  });
+  if (depth + 1 < groupCols.length) {
+    for (const g of groups) g.children = buildGroups(g.rowIds, idToRow, groupCols, sort, keyRowOf, emptyLabel, depth + 1, g.key);
+  }
+  return groups;
+}
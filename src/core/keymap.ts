@@ -0,0 +1,152 @@
+import type React from 'react';
+import type { BuiltinCommandId, KeyBindings, KeyConflict } from '../types';
+
+/**
+ * Tastekombinasjoner for kommandoregisteret.
+ * Format: modifikatorer + tast skilt med '+', f.eks. "Mod+Shift+Z", "Alt+ArrowRight", "F8".
+ * Mod = Cmd på Mac og Ctrl ellers. Bokstaver skrives med stor forbokstav.
+ */
+
+export const DEFAULT_KEYMAP: Record<BuiltinCommandId, string[]> = {
+  copy: ['Mod+C'],
+  copyFormatted: ['Alt+Shift+C'],
+  paste: ['Mod+V'],
+  cut: ['Mod+X'],
+  undo: ['Mod+Z'],
+  redo: ['Mod+Y', 'Mod+Shift+Z'],
+  delete: ['Delete'],
+  edit: ['Enter', 'F2'],
+  nextCell: ['Tab'],
+  prevCell: ['Shift+Tab'],
+  moveUp: ['ArrowUp'],
+  moveDown: ['ArrowDown'],
+  moveLeft: ['ArrowLeft'],
+  moveRight: ['ArrowRight'],
+  expand: ['Mod+ArrowRight'],
+  collapse: ['Mod+ArrowLeft'],
+  indent: ['Alt+ArrowRight'],
+  outdent: ['Alt+ArrowLeft'],
+  moveRowUp: ['Alt+ArrowUp'],
+  moveRowDown: ['Alt+ArrowDown'],
+  insertRowAbove: ['Mod+Shift+Enter'],
+  insertRowBelow: ['Mod+Enter'],
+  insertChildRow: ['Mod+Alt+Enter'],
+  duplicateRows: ['Alt+Shift+D'],
+  deleteRows: ['Mod+-'],
+  fillDown: ['Mod+D'],
+  fillRight: ['Mod+R'],
+  search: ['Mod+F'],
+  nextError: ['F8'],
+  prevError: ['Shift+F8'],
+  selectRow: ['Shift+Space'],
+  selectColumn: ['Ctrl+Space'],
+  selectAll: ['Mod+A'],
+  exportSelection: [],
+};
+
+export const isMacPlatform = () => /(Mac|iPhone|iPod|iPad)/i.test(navigator.platform);
+
+const MOD_ORDER = ['Mod', 'Ctrl', 'Meta', 'Alt', 'Shift'] as const;
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'Escape', del: 'Delete', ins: 'Insert', return: 'Enter', space: 'Space', ' ': 'Space',
+  up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight',
+};
+
+function normalizeKey(key: string): string {
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) return alias;
+  if (key.length === 1) return key.toUpperCase();
+  return key.charAt(0).toUpperCase() + key.slice(1);
+}
+
+function format(mods: Set<string>, key: string): string {
+  return [...MOD_ORDER.filter(m => mods.has(m)), key].join('+');
+}
+
+/** Normaliser en binding ("ctrl+shift+z" → "Mod+Shift+Z" utenfor Mac). */
+export function normalizeChord(chord: string, isMac: boolean): string {
+  const parts = chord.split('+').map(p => p.trim());
+  // "Mod++" betyr plusstasten
+  const key = parts[parts.length - 1] === '' ? '+' : parts[parts.length - 1];
+  const mods = new Set<string>();
+  for (const raw of parts.slice(0, parts[parts.length - 1] === '' ? -2 : -1)) {
+    switch (raw.toLowerCase()) {
+      case 'mod': mods.add('Mod'); break;
+      case 'ctrl': case 'control': mods.add(isMac ? 'Ctrl' : 'Mod'); break;
+      case 'cmd': case 'command': case 'meta': mods.add(isMac ? 'Mod' : 'Meta'); break;
+      case 'alt': case 'option': mods.add('Alt'); break;
+      case 'shift': mods.add('Shift'); break;
+    }
+  }
+  return format(mods, normalizeKey(key));
+}
+
+/** Kombinasjonen et tastetrykk tilsvarer, på samme form som normalizeChord. */
+export function chordFromEvent(e: KeyboardEvent | React.KeyboardEvent, isMac: boolean): string {
+  const mods = new Set<string>();
+  if (e.ctrlKey) mods.add(isMac ? 'Ctrl' : 'Mod');
+  if (e.metaKey) mods.add(isMac ? 'Mod' : 'Meta');
+  if (e.altKey) mods.add('Alt');
+  if (e.shiftKey) mods.add('Shift');
+  // Bokstaver/sifre via code, så Shift/Alt (Option på Mac) ikke endrer tasten
+  let key = e.key;
+  if (/^Key[A-Z]$/.test(e.code)) key = e.code.slice(3);
+  else if (/^Digit\d$/.test(e.code)) key = e.code.slice(5);
+  return format(mods, normalizeKey(key));
+}
+
+export type ResolvedKeymap = {
+  byChord: Map<string, string>;       // kombinasjon → kommando-id
+  byCommand: Map<string, string[]>;   // kommando-id → aktive kombinasjoner
+  conflicts: KeyConflict[];
+};
+
+/**
+ * Slå sammen standardbindinger, kommandoenes egne taster og appens keymap.
+ * Prioritet ved kollisjon: keymap > kommandoens keys > standard; innen samme nivå vinner den første.
+ */
+export function resolveKeymap(
+  commands: { id: string; keys?: string[] }[],
+  keymap: KeyBindings | undefined,
+  isMac: boolean,
+): ResolvedKeymap {
+  type Claim = { command: string; rank: number };
+  const claims = new Map<string, Claim[]>();
+  const claim = (chord: string, command: string, rank: number) => {
+    const c = normalizeChord(chord, isMac);
+    const list = claims.get(c) ?? [];
+    if (!list.some(x => x.command === command)) list.push({ command, rank });
+    claims.set(c, list);
+  };
+
+  for (const cmd of commands) {
+    const override = keymap?.[cmd.id];
+    if (override) { override.forEach(k => claim(k, cmd.id, 2)); continue; }
+    const builtin = (DEFAULT_KEYMAP as Record<string, string[] | undefined>)[cmd.id];
+    if (cmd.keys) cmd.keys.forEach(k => claim(k, cmd.id, 1));
+    else builtin?.forEach(k => claim(k, cmd.id, 0));
+  }
+
+  const byChord = new Map<string, string>();
+  const byCommand = new Map<string, string[]>();
+  const conflicts: KeyConflict[] = [];
+  for (const [chord, list] of claims) {
+    const winner = list.reduce((best, c) => (c.rank > best.rank ? c : best), list[0]);
+    byChord.set(chord, winner.command);
+    byCommand.set(winner.command, [...(byCommand.get(winner.command) ?? []), chord]);
+    if (list.length > 1) conflicts.push({ chord, commands: list.map(c => c.command), winner: winner.command });
+  }
+  return { byChord, byCommand, conflicts };
+}
+
+/** Visningstekst for en binding, f.eks. "Mod+Shift+Z" → "Ctrl+Shift+Z" / "⌘⇧Z". */
+export function formatChord(chord: string, isMac: boolean): string {
+  const i = chord.lastIndexOf('+', chord.length - 2);
+  const key = chord.slice(i + 1);
+  const parts = i < 0 ? [] : chord.slice(0, i).split('+');
+  if (isMac) {
+    const sym: Record<string, string> = { Mod: '⌘', Ctrl: '⌃', Meta: '⌘', Alt: '⌥', Shift: '⇧' };
+    return parts.map(m => sym[m] ?? m).join('') + key;
+  }
+  return [...parts.map(m => (m === 'Mod' ? 'Ctrl' : m)), key].join('+');
+}
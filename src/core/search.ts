@@ -0,0 +1,50 @@
+import type { ColumnDef } from '../types';
+import { FormulaError } from './formula';
+
+/**
+ * Hurtigsøk og søk/erstatt for TableCore.
+ * Søket går mot det som vises i cella (ColumnDef.format), uten store/små bokstaver.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+export type SearchHit = { rowId: string; colId: string };
+
+export function cellText(col: ColumnDef, row: Row): string {
+  const value = row[col.id];
+  if (value instanceof FormulaError) return value.code;
+  if (col.format) return col.format(value, row);
+  return value == null ? '' : String(value);
+}
+
+// Intl skiller tusener med hardt mellomrom (nb); søket skal treffe «1 234» skrevet med vanlig mellomrom
+const foldSpaces = (s: string) => s.replace(/[\u00a0\u202f]/g, ' ');
+
+function escapeRegExp(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Mellomrom i søket treffer også hardt mellomrom, så resten av teksten kan stå urørt ved erstatning
+export function searchRegExp(query: string): RegExp {
+  return new RegExp(escapeRegExp(foldSpaces(query)).replace(/ /g, '[ \\u00a0\\u202f]'), 'gi');
+}
+
+/** Alle treff i gitt radrekkefølge, rad for rad og kolonne for kolonne. */
+export function findHits(query: string, rowIds: string[], idToRow: Map<string, Row>, cols: ColumnDef[]): SearchHit[] {
+  const q = foldSpaces(query.trim().toLocaleLowerCase());
+  if (!q) return [];
+  const hits: SearchHit[] = [];
+  for (const id of rowIds) {
+    const row = idToRow.get(id);
+    if (!row) continue;
+    for (const col of cols) {
+      if (foldSpaces(cellText(col, row).toLocaleLowerCase()).includes(q)) hits.push({ rowId: id, colId: col.id });
+    }
+  }
+  return hits;
+}
+
+export function replaceInText(text: string, query: string, replacement: string): string {
+  // Funksjon som erstatning, slik at "$&" o.l. i teksten ikke tolkes
+  return text.replace(searchRegExp(query.trim()), () => replacement);
+}
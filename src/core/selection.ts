@@ -0,0 +1,77 @@
+import type { CellRange, Selection } from '../types';
+
+/**
+ * Markering som liste av områder adressert med rad- og kolonne-id.
+ * TableCore regner om til indekser (Rect) for gjeldende visning, så markeringen
+ * følger cellene gjennom sortering, filtrering og flytting av kolonner.
+ * Områder med et endepunkt som ikke er synlig (filtrert bort, kollapset) vises ikke.
+ */
+
+export type Rect = { r0: number; r1: number; c0: number; c1: number };
+
+export const EMPTY_SELECTION: Selection = { ranges: [], active: null };
+
+export function rangeToRect(
+  range: CellRange,
+  rowIndex: Map<string, number>,
+  colIndex: Map<string, number>,
+  rowCount: number,
+  colCount: number,
+): Rect | null {
+  if (!rowCount || !colCount) return null;
+  let r0 = 0, r1 = rowCount - 1, c0 = 0, c1 = colCount - 1;
+  if (range.rows) {
+    const a = rowIndex.get(range.rows[0]), b = rowIndex.get(range.rows[1]);
+    if (a === undefined || b === undefined) return null;
+    r0 = Math.min(a, b); r1 = Math.max(a, b);
+  }
+  if (range.cols) {
+    const a = colIndex.get(range.cols[0]), b = colIndex.get(range.cols[1]);
+    if (a === undefined || b === undefined) return null;
+    c0 = Math.min(a, b); c1 = Math.max(a, b);
+  }
+  return { r0, r1, c0, c1 };
+}
+
+export const rectContains = (rect: Rect, r: number, c: number) =>
+  r >= rect.r0 && r <= rect.r1 && c >= rect.c0 && c <= rect.c1;
+
+/** Radindekser som inngår i minst ett område, stigende. */
+export function rowsIn(rects: Rect[]): number[] {
+  const set = new Set<number>();
+  for (const rect of rects) for (let r = rect.r0; r <= rect.r1; r++) set.add(r);
+  return [...set].sort((a, b) => a - b);
+}
+
+/** Kolonneindekser som inngår i minst ett område, stigende. */
+export function colsIn(rects: Rect[]): number[] {
+  const set = new Set<number>();
+  for (const rect of rects) for (let c = rect.c0; c <= rect.c1; c++) set.add(c);
+  return [...set].sort((a, b) => a - b);
+}
+
+/** Celler i alle områdene uten duplikater (overlapp telles én gang), rad for rad. */
+export function cellsIn(rects: Rect[]): { r: number; c: number }[] {
+  const seen = new Set<string>();
+  const out: { r: number; c: number }[] = [];
+  for (const rect of rects) {
+    for (let r = rect.r0; r <= rect.r1; r++) {
+      for (let c = rect.c0; c <= rect.c1; c++) {
+        const k = `${r}:${c}`;
+        if (seen.has(k)) continue;
+        seen.add(k);
+        out.push({ r, c });
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Matrisen for kopier/eksport: radene og kolonnene som inngår i noen av områdene,
+ * med tomme celler der et kryss ikke er markert (som Excel ved flere områder i samme rader/kolonner).
+ */
+export function selectionGrid(rects: Rect[]): { rows: number[]; cols: number[]; has: (r: number, c: number) => boolean } {
+  const rows = rowsIn(rects), cols = colsIn(rects);
+  return { rows, cols, has: (r, c) => rects.some(rect => rectContains(rect, r, c)) };
+}
@@ -0,0 +1,108 @@
+import type { ColumnDef, SortState } from '../types';
+
+/**
+ * Typebasert sortering for TableCore.
+ * - Tomme verdier havner alltid sist, uavhengig av retning.
+ * - ColumnDef.compare overstyrer standard-komparatoren for kolonnen.
+ * - Sorteringen er stabil, så lik nøkkel beholder rekkefølgen fra rowOrder.
+ */
+
+type Row = { id: string; [key: string]: any };
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export function isEmptyValue(v: any): boolean {
+  return v === null || v === undefined || (typeof v === 'string' && v.trim() === '');
+}
+
+function toNumber(v: any): number | null {
+  const n = typeof v === 'number' ? v : Number(v);
+  return isNaN(n) ? null : n;
+}
+
+export function toTime(v: any): number | null {
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : v.getTime();
+  const t = Date.parse(String(v));
+  return isNaN(t) ? null : t;
+}
+
+function optionLabel(col: ColumnDef, v: any): string {
+  const opt = col.options?.find(o => o.value === v);
+  return opt ? opt.label : String(v);
+}
+
+/** Sammenlign to ikke-tomme verdier etter kolonnetype (stigende). */
+export function compareByType(col: ColumnDef, a: any, b: any): number {
+  switch (col.type) {
+    case 'number': {
+      const na = toNumber(a), nb = toNumber(b);
+      if (na === null || nb === null) return (na === null ? 1 : 0) - (nb === null ? 1 : 0);
+      return na - nb;
+    }
+    case 'date': {
+      const ta = toTime(a), tb = toTime(b);
+      if (ta === null || tb === null) return (ta === null ? 1 : 0) - (tb === null ? 1 : 0);
+      return ta - tb;
+    }
+    case 'select':
+      return collator.compare(optionLabel(col, a), optionLabel(col, b));
+    default:
+      return collator.compare(String(a), String(b));
+  }
+}
+
+export function compareRows(sort: SortState, cols: Map<string, ColumnDef>, ra: Row, rb: Row): number {
+  for (const s of sort) {
+    const col = cols.get(s.colId);
+    if (!col) continue;
+    const a = ra[col.id];
+    const b = rb[col.id];
+    const ea = isEmptyValue(a), eb = isEmptyValue(b);
+    if (ea || eb) {
+      if (ea && eb) continue;
+      return ea ? 1 : -1; // tomme sist
+    }
+    const res = col.compare ? col.compare(a, b, ra, rb) : compareByType(col, a, b);
+    if (res !== 0) return s.dir === 'desc' ? -res : res;
+  }
+  return 0;
+}
+
+/**
+ * Sorter en liste med rad-id'er. Oppsummeringsrader sorteres ikke, men legges
+ * etter datarader slik at de fortsatt står nederst i sin gruppe.
+ */
+export function sortRowIds(
+  ids: string[],
+  idToRow: Map<string, Row>,
+  sort: SortState,
+  cols: Map<string, ColumnDef>,
+  isSummary: (row: Row) => boolean,
+): string[] {
+  if (!sort.length) return ids;
+  const data: Row[] = [];
+  const summaries: string[] = [];
+  for (const id of ids) {
+    const r = idToRow.get(id);
+    if (!r) continue;
+    if (isSummary(r)) summaries.push(id); else data.push(r);
+  }
+  data.sort((a, b) => compareRows(sort, cols, a, b));
+  return [...data.map(r => r.id), ...summaries];
+}
+
+/**
+ * Neste sorteringstilstand etter klikk på kolonneheader.
+ * - Klikk: kun denne kolonnen, syklus asc → desc → av.
+ * - Shift-klikk: legg til/bytt retning/fjern kolonnen i en flerkolonnesortering.
+ */
+export function nextSortState(prev: SortState, colId: string, additive: boolean): SortState {
+  const existing = prev.find(s => s.colId === colId);
+  if (!additive) {
+    if (!existing || prev.length > 1) return [{ colId, dir: 'asc' }];
+    return existing.dir === 'asc' ? [{ colId, dir: 'desc' }] : [];
+  }
+  if (!existing) return [...prev, { colId, dir: 'asc' }];
+  if (existing.dir === 'asc') return prev.map(s => (s.colId === colId ? { colId, dir: 'desc' } : s));
+  return prev.filter(s => s.colId !== colId);
+}
@@ -0,0 +1,139 @@
+import * as React from 'react';
+import type { TableTheme, ThemeName } from '../types';
+
+/**
+ * Temaer for TableCore.
+ * - Ferdige varianter: mørk (standard), lys og høy kontrast; egne temaer er et (delvis) TableTheme.
+ * - Tema gis via TableThemeContext (hele appen) eller TableCore.theme (én tabell, over konteksten).
+ * - Tabellen legger temaet som CSS-variabler (--tc-header-bg …) på roten med laveste prioritet (:where),
+ *   så vertsappen kan merkevaretilpasse med f.eks. `.tc-root { --tc-header-bg: … }` uten kode.
+ *   Delkomponentene bruker themeVar(); verktøylinjer utenfor tabellen bruker themeStyles() med fallback.
+ * - Ved utskrift brukes lyse farger (themePrintCss).
+ */
+
+export const darkTheme: TableTheme = {
+  bodyBg: '#101827',
+  bodyFg: '#e5e7eb',
+  headerBg: '#0f172a',
+  headerFg: '#e5e7eb',
+  borderH: '#1f2937',
+  borderV: '#243041',
+  rowHeaderBg: '#111827',
+  rowHeaderFg: '#9ca3af',
+  mutedFg: '#6b7280',
+  selectionOutline: '#93c5fd',
+  selectionFill: 'rgba(147,197,253,0.15)',
+  hitOutline: '#facc15',
+  hitFill: 'rgba(250,204,21,0.18)',
+  summaryBg: '#0d1324',
+  treeLevelFg: ['#e5e7eb', '#d1d5db', '#9ca3af'],
+  freezeShadow: 'rgba(0,0,0,0.6)',
+  error: '#ef4444',
+  danger: '#f87171',
+  menuBg: '#0f172a',
+  menuHover: '#1e293b',
+  editorBg: '#0b1220',
+  editorFg: '#f9fafb',
+  inputBorder: '#243041',
+};
+
+export const lightTheme: TableTheme = {
+  bodyBg: '#ffffff',
+  bodyFg: '#111827',
+  headerBg: '#f3f4f6',
+  headerFg: '#111827',
+  borderH: '#e5e7eb',
+  borderV: '#e5e7eb',
+  rowHeaderBg: '#f9fafb',
+  rowHeaderFg: '#6b7280',
+  mutedFg: '#9ca3af',
+  selectionOutline: '#2563eb',
+  selectionFill: 'rgba(37,99,235,0.10)',
+  hitOutline: '#ca8a04',
+  hitFill: 'rgba(250,204,21,0.25)',
+  summaryBg: '#f1f5f9',
+  treeLevelFg: ['#111827', '#374151', '#4b5563'],
+  freezeShadow: 'rgba(0,0,0,0.15)',
+  error: '#dc2626',
+  danger: '#dc2626',
+  menuBg: '#ffffff',
+  menuHover: '#f3f4f6',
+  editorBg: '#ffffff',
+  editorFg: '#111827',
+  inputBorder: '#d1d5db',
+};
+
+// Høy kontrast: svart/hvitt med gul markering (WCAG AAA for tekst)
+export const highContrastTheme: TableTheme = {
+  bodyBg: '#000000',
+  bodyFg: '#ffffff',
+  headerBg: '#000000',
+  headerFg: '#ffffff',
+  borderH: '#ffffff',
+  borderV: '#ffffff',
+  rowHeaderBg: '#000000',
+  rowHeaderFg: '#ffffff',
+  mutedFg: '#d4d4d4',
+  selectionOutline: '#ffff00',
+  selectionFill: 'rgba(255,255,0,0.25)',
+  hitOutline: '#00ffff',
+  hitFill: 'rgba(0,255,255,0.25)',
+  summaryBg: '#1a1a1a',
+  treeLevelFg: ['#ffffff'],
+  freezeShadow: 'rgba(255,255,255,0.8)',
+  error: '#ff6b6b',
+  danger: '#ff6b6b',
+  menuBg: '#000000',
+  menuHover: '#333333',
+  editorBg: '#000000',
+  editorFg: '#ffffff',
+  inputBorder: '#ffffff',
+};
+
+export const THEMES: Record<ThemeName, TableTheme> = {
+  dark: darkTheme,
+  light: lightTheme,
+  'high-contrast': highContrastTheme,
+};
+
+export const TableThemeContext = React.createContext<TableTheme>(darkTheme);
+export const useTableTheme = () => React.useContext(TableThemeContext);
+
+/** Navn eller delvis tema lagt over base (typisk temaet fra konteksten). */
+export function resolveTheme(theme: ThemeName | Partial<TableTheme> | undefined, base: TableTheme): TableTheme {
+  if (!theme) return base;
+  if (typeof theme === 'string') return THEMES[theme] ?? base;
+  return { ...base, ...theme };
+}
+
+// headerBg → --tc-header-bg, treeLevelFg[1] → --tc-tree-level-fg-1
+const cssVarName = (token: string, index?: number) =>
+  `--tc-${token.replace(/[A-Z]/g, m => `-${m.toLowerCase()}`)}${index === undefined ? '' : `-${index}`}`;
+
+/** Variabelen for et token, til bruk inne i tabellen der variablene alltid er satt. */
+export const themeVar = (token: Exclude<keyof TableTheme, 'treeLevelFg'>) => `var(${cssVarName(token)})`;
+
+/** Temaet som var(--tc-…, verdi)-uttrykk, klare for inline-stiler. */
+export function themeStyles(theme: TableTheme): TableTheme {
+  const out = {} as Record<string, string | string[]>;
+  for (const [token, value] of Object.entries(theme) as [keyof TableTheme, string | string[]][]) {
+    out[token] = Array.isArray(value)
+      ? value.map((v, i) => `var(${cssVarName(token, i)}, ${v})`)
+      : `var(${cssVarName(token)}, ${value})`;
+  }
+  return out as TableTheme;
+}
+
+/** CSS-regel som setter alle variablene for temaet på selector. */
+export function themeCss(selector: string, theme: TableTheme): string {
+  const decls: string[] = [];
+  for (const [token, value] of Object.entries(theme) as [keyof TableTheme, string | string[]][]) {
+    if (Array.isArray(value)) value.forEach((v, i) => decls.push(`${cssVarName(token, i)}: ${v};`));
+    else decls.push(`${cssVarName(token)}: ${value};`);
+  }
+  return `${selector} { ${decls.join(' ')} }`;
+}
+
+/** Utskrift på hvitt: lyse farger på selector (tabellens rot), også om appen har egne variabler. */
+export const themePrintCss = (selector: string, theme: TableTheme = lightTheme) =>
+  `@media print { ${themeCss(selector, theme)} }`;
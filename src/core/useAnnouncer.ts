@@ -0,0 +1,33 @@
+import * as React from 'react';
+
+/**
+ * Meldinger til skjermlesere via en aria-live-region.
+ * Regionen tømmes før hver melding, så samme tekst to ganger på rad også leses opp.
+ */
+export function useAnnouncer(delayMs = 100) {
+  const [message, setMessage] = React.useState('');
+  const timer = React.useRef<number | undefined>(undefined);
+
+  const announce = React.useCallback((text: string) => {
+    window.clearTimeout(timer.current);
+    setMessage('');
+    timer.current = window.setTimeout(() => setMessage(text), delayMs);
+  }, [delayMs]);
+
+  React.useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  return { message, announce };
+}
+
+// Skjult visuelt, men tilgjengelig for skjermlesere
+export const VISUALLY_HIDDEN: React.CSSProperties = {
+  position: 'absolute',
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: 'hidden',
+  clip: 'rect(0 0 0 0)',
+  whiteSpace: 'nowrap',
+  border: 0,
+};
@@ -1,49 +1,120 @@
+import React from 'react';
+import { ClipCell, parseHTMLTable, parseTSV, toHTMLTable, toTSV } from './clipboardFormat';
+
 type ClipboardHandlers = {
-  onCopyText: () => string | undefined;
+  isActive: () => boolean; // tabellen har fokus og ingen celle redigeres
+  getCopyCells: (formatted?: boolean) => ClipCell[][] | undefined;
   onPasteMatrix: (matrix: string[][]) => void;
-  onUndo: () => void;
-  onRedo: () => void;
+  onCut: () => void;       // tøm kilden etter at den er kopiert
+};
+
+// Kombinasjoner der nettleseren selv sender copy/cut/paste-hendelser
+export const NATIVE_CLIPBOARD_CHORDS: Record<string, 'copy' | 'cut' | 'paste'> = {
+  'Mod+C': 'copy',
+  'Mod+X': 'cut',
+  'Mod+V': 'paste',
 };
 
 export function useClipboard(handlers: ClipboardHandlers) {
-  function parseTSV(text: string): string[][] {
-    // Støtt både \r\n og \n
-    const lines = text.replace(/\r/g, '').split('\n').filter(l => l.length || text.endsWith('\n'));
-    return lines.map(line => line.split('\t'));
-  }
+  const ref = React.useRef(handlers);
+  ref.current = handlers;
 
-  function onKeyDown(e: React.KeyboardEvent) {
-    const isMac = /(Mac|iPhone|iPod|iPad)/i.test(navigator.platform);
-    const ctrl = isMac ? e.metaKey : e.ctrlKey;
+  function serialize(formatted?: boolean) {
+    const cells = ref.current.getCopyCells(formatted);
+    if (!cells?.length) return null;
+    return { text: toTSV(cells.map(row => row.map(c => c.text))), html: toHTMLTable(cells) };
+  }
+  // HTML-tabell (Excel/Sheets/Word) foretrekkes; ellers TSV
+  function readMatrix(html: string, plain: string): string[][] | null {
+    const fromHtml = html ? parseHTMLTable(html) : null;
+    if (fromHtml?.length) return fromHtml;
+    return plain ? parseTSV(plain) : null;
+  }
 
-    // Undo/Redo
-    if (ctrl && (e.key === 'z' || e.key === 'Z')) {
+  // Nettleserens hendelser (Ctrl/Cmd + C/X/V og menyvalg)
+  React.useEffect(() => {
+    function onCopy(e: ClipboardEvent) {
+      if (!ref.current.isActive()) return;
+      const data = serialize();
+      if (!data || !e.clipboardData) return;
       e.preventDefault();
-      handlers.onUndo();
-      return;
+      e.clipboardData.setData('text/plain', data.text);
+      e.clipboardData.setData('text/tab-separated-values', data.text);
+      e.clipboardData.setData('text/html', data.html);
+    }
+    function onCut(e: ClipboardEvent) {
+      if (!ref.current.isActive()) return;
+      onCopy(e);
+      if (e.defaultPrevented) ref.current.onCut();
     }
-    if (ctrl && (e.key === 'y' || (e.shiftKey && (e.key === 'z' || e.key === 'Z')))) {
+    function onPaste(e: ClipboardEvent) {
+      if (!ref.current.isActive()) return;
+      const matrix = readMatrix(e.clipboardData?.getData('text/html') || '', e.clipboardData?.getData('text/plain') || '');
+      if (!matrix) return;
       e.preventDefault();
-      handlers.onRedo();
-      return;
+      ref.current.onPasteMatrix(matrix);
     }
-  }
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCut);
+    document.addEventListener('paste', onPaste);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCut);
+      document.removeEventListener('paste', onPaste);
+    };
+  }, []);
 
-  function onCopy(e: React.ClipboardEvent) {
-    const text = handlers.onCopyText?.();
-    if (!text) return;
-    e.preventDefault();
-    e.clipboardData.setData('text/plain', text);
-    e.clipboardData.setData('text/tab-separated-values', text);
+  // Async Clipboard API for ombundne taster (som ikke utløser hendelsene over).
+  // Krever sikker kontekst (https) og tillatelse; feil gir false i stedet for en avvist promise.
+  const available = () => typeof navigator !== 'undefined' && !!navigator.clipboard;
+  async function attempt(run: () => Promise<void>): Promise<boolean> {
+    if (!available()) return false;
+    try {
+      await run();
+      return true;
+    } catch {
+      return false;
+    }
   }
-
-  function onPaste(e: React.ClipboardEvent) {
-    const plain = e.clipboardData.getData('text/plain') || '';
-    if (!plain) return;
-    e.preventDefault();
-    const matrix = parseTSV(plain);
-    handlers.onPasteMatrix(matrix);
+  async function write(data: { text: string; html: string }) {
+    if (typeof ClipboardItem !== 'undefined' && navigator.clipboard.write) {
+      await navigator.clipboard.write([new ClipboardItem({
+        'text/plain': new Blob([data.text], { type: 'text/plain' }),
+        'text/html': new Blob([data.html], { type: 'text/html' }),
+      })]);
+    } else {
+      await navigator.clipboard.writeText(data.text);
+    }
+  }
+  /** true hvis kopieringen lyktes (eller det ikke var noe å kopiere). */
+  async function copy(formatted?: boolean): Promise<boolean> {
+    const data = serialize(formatted);
+    return data ? attempt(() => write(data)) : true;
+  }
+  async function cut(): Promise<boolean> {
+    const data = serialize();
+    if (!data) return true;
+    const ok = await attempt(() => write(data));
+    if (ok) ref.current.onCut(); // kilden tømmes bare når den faktisk er kopiert
+    return ok;
+  }
+  async function paste(): Promise<boolean> {
+    let html = '', plain = '';
+    const ok = await attempt(async () => {
+      if (navigator.clipboard.read) {
+        for (const item of await navigator.clipboard.read()) {
+          if (item.types.includes('text/html')) html = await (await item.getType('text/html')).text();
+          if (item.types.includes('text/plain')) plain = await (await item.getType('text/plain')).text();
+        }
+      } else {
+        plain = await navigator.clipboard.readText();
+      }
+    });
+    if (!ok) return false;
+    const matrix = readMatrix(html, plain);
+    if (matrix) ref.current.onPasteMatrix(matrix);
+    return true;
   }
 
-  return { onKeyDown, onCopy, onPaste };
+  return { copy, cut, paste };
 }
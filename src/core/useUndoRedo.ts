@@ -1,3 +1,5 @@
+import type { RowInsert } from '../types';
+
 export type CellChange = {
   rowId: string;
   colId: string;
@@ -5,35 +7,163 @@ export type CellChange = {
   nextValue: any;
 };
 
+// Strukturelle endringer: innsatte/slettede rader (med det som trengs for å legge dem tilbake)
+// og ny rekkefølge på rader/kolonner. Flytting i treet er en CellChange på parentId.
+export type HistoryOp =
+  | { kind: 'insert'; insert: RowInsert }
+  | { kind: 'delete'; restore: RowInsert[] }
+  | { kind: 'reorderRows'; before: string[]; after: string[] }
+  | { kind: 'reorderColumns'; before: string[]; after: string[] };
+
 export type HistoryAction = {
   changes: CellChange[]; // én eller mange
+  ops?: HistoryOp[];
+};
+
+// Hvordan en handling spilles av; settes av TableCore
+export type HistoryApplier = {
+  forward: (action: HistoryAction) => void;
+  inverse: (action: HistoryAction) => void;
+};
+
+export type UndoHistory = {
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Legg til en handling. Samme coalesceKey innen coalesceMs slås sammen med forrige (f.eks. rask skriving i samme celle). */
+  push: (action: HistoryAction, opts?: { coalesceKey?: string }) => void;
+  undo: () => void;
+  redo: () => void;
+  /** Alt som pushes mens fn kjører blir én angre-operasjon. */
+  transaction: <T>(fn: () => T, opts?: { coalesceKey?: string }) => T;
+  begin: () => void;
+  commit: (opts?: { coalesceKey?: string }) => void;
+  clear: () => void;
+  attach: (applier: HistoryApplier) => void;
+};
+
+export type UndoOptions = {
+  limit?: number;      // maks antall handlinger (default 200)
+  coalesceMs?: number; // vindu for sammenslåing (default 1000)
 };
 
-export function useUndoRedo() {
+const isEmpty = (a: HistoryAction) => !a.changes.length && !a.ops?.length;
+
+/**
+ * Slå sammen to handlinger; for samme celle beholdes første oldValue og siste nextValue.
+ * Celler som ender på utgangsverdien faller bort, så handlingen kan bli tom.
+ */
+function merge(a: HistoryAction, b: HistoryAction): HistoryAction {
+  let changes = [...a.changes];
+  let cancelled = false;
+  for (const ch of b.changes) {
+    const i = changes.findIndex(x => x.rowId === ch.rowId && x.colId === ch.colId);
+    if (i >= 0 && !a.ops?.length) {
+      changes[i] = { ...changes[i], nextValue: ch.nextValue };
+      if (Object.is(changes[i].oldValue, ch.nextValue)) cancelled = true;
+    } else changes.push(ch);
+  }
+  if (cancelled) changes = changes.filter(ch => !Object.is(ch.oldValue, ch.nextValue));
+  const ops = [...(a.ops ?? []), ...(b.ops ?? [])];
+  return ops.length ? { changes, ops } : { changes };
+}
+
+export function useUndoRedo(options: UndoOptions = {}): UndoHistory {
+  const { limit = 200, coalesceMs = 1000 } = options;
   const undoStack = React.useRef<HistoryAction[]>([]);
   const redoStack = React.useRef<HistoryAction[]>([]);
+  const last = React.useRef<{ key: string; at: number } | null>(null);
+  const tx = React.useRef<{ depth: number; action: HistoryAction }>({ depth: 0, action: { changes: [] } });
+  const applier = React.useRef<HistoryApplier | null>(null);
+  const replaying = React.useRef(false);
+  const [flags, setFlags] = React.useState({ canUndo: false, canRedo: false });
+
+  function sync() {
+    const next = { canUndo: undoStack.current.length > 0, canRedo: redoStack.current.length > 0 };
+    setFlags(prev => (prev.canUndo === next.canUndo && prev.canRedo === next.canRedo ? prev : next));
+  }
 
-  function push(action: HistoryAction) {
-    undoStack.current.push(action);
+  function record(action: HistoryAction, coalesceKey?: string) {
+    const now = Date.now();
+    const prev = undoStack.current[undoStack.current.length - 1];
+    if (coalesceKey && prev && last.current?.key === coalesceKey && now - last.current.at <= coalesceMs) {
+      const merged = merge(prev, action);
+      if (isEmpty(merged)) {
+        // Skrivingen endte der den startet: ingenting å angre
+        undoStack.current.pop();
+        last.current = null;
+        redoStack.current = [];
+        sync();
+        return;
+      }
+      undoStack.current[undoStack.current.length - 1] = merged;
+    } else {
+      undoStack.current.push(action);
+      if (undoStack.current.length > limit) undoStack.current.splice(0, undoStack.current.length - limit);
+    }
+    last.current = coalesceKey ? { key: coalesceKey, at: now } : null;
     // ny endring invaliderer redo-kjeden
     redoStack.current = [];
+    sync();
   }
 
-  function undo(): HistoryAction | null {
+  function push(action: HistoryAction, opts?: { coalesceKey?: string }) {
+    // Endringer som skjer mens vi spiller av angre/gjør om skal ikke inn i historikken
+    if (replaying.current || isEmpty(action)) return;
+    if (tx.current.depth > 0) { tx.current.action = merge(tx.current.action, action); return; }
+    record(action, opts?.coalesceKey);
+  }
+
+  function replay(action: HistoryAction, dir: 'forward' | 'inverse') {
+    replaying.current = true;
+    try { applier.current?.[dir](action); } finally { replaying.current = false; }
+  }
+
+  function undo() {
+    if (tx.current.depth > 0) return;
     const a = undoStack.current.pop();
-    if (!a) return null;
+    if (!a) return;
     redoStack.current.push(a);
-    return a;
+    last.current = null;
+    replay(a, 'inverse');
+    sync();
   }
 
-  function redo(): HistoryAction | null {
+  function redo() {
+    if (tx.current.depth > 0) return;
     const a = redoStack.current.pop();
-    if (!a) return null;
+    if (!a) return;
     undoStack.current.push(a);
-    return a;
+    last.current = null;
+    replay(a, 'forward');
+    sync();
+  }
+
+  function begin() {
+    if (tx.current.depth === 0) tx.current.action = { changes: [] };
+    tx.current.depth++;
+  }
+
+  function commit(opts?: { coalesceKey?: string }) {
+    if (tx.current.depth === 0) return;
+    tx.current.depth--;
+    if (tx.current.depth === 0 && !isEmpty(tx.current.action)) record(tx.current.action, opts?.coalesceKey);
+  }
+
+  function transaction<T>(fn: () => T, opts?: { coalesceKey?: string }): T {
+    begin();
+    try { return fn(); } finally { commit(opts); }
   }
 
-  return { push, undo, redo };
+  function clear() {
+    undoStack.current = [];
+    redoStack.current = [];
+    last.current = null;
+    sync();
+  }
+
+  function attach(a: HistoryApplier) { applier.current = a; }
+
+  return { ...flags, push, undo, redo, transaction, begin, commit, clear, attach };
 }
 
 // Import React uten default for å unngå treeshake-problemer i noen bundlere
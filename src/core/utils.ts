@@ -1 +1,11 @@
 export const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+/** Bredde i px for tekst med gitt CSS-font (brukes til auto-tilpasning av kolonner). */
+export function measureTextWidth(text: string, font: string): number {
+  if (!measureCtx) measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) return text.length * 7;
+  measureCtx.font = font;
+  return measureCtx.measureText(text).width;
+}
@@ -0,0 +1,74 @@
+/**
+ * Kolonnevindu for horisontal virtualisering.
+ * Frosne kolonner (de første `frozenCount` og de siste `frozenRightCount`) rendres alltid;
+ * resten kun når de overlapper [scrollLeft - overscan, scrollLeft + viewportWidth + overscan].
+ * Koordinater er relative til innholdets venstrekant (inkl. #-kolonnen).
+ */
+
+export type ColumnWindow = {
+  frozen: number[];      // venstrefrosne kolonneindekser (vises alltid)
+  window: number[];      // synlige, ikke-frosne kolonneindekser
+  frozenRight: number[]; // høyrefrosne kolonneindekser (vises alltid)
+  padLeft: number;       // px mellom venstrefrosne kolonner og første vinduskolonne
+  padRight: number;      // px mellom siste vinduskolonne og høyrefrosne kolonner
+};
+
+export function computeColumnWindow(
+  lefts: number[],
+  widths: number[],
+  frozenCount: number,
+  scrollLeft: number,
+  viewportWidth: number,
+  overscan = 200,
+  frozenRightCount = 0,
+): ColumnWindow {
+  const n = widths.length;
+  const nFrozen = Math.min(frozenCount, n);
+  const nRight = Math.min(frozenRightCount, n - nFrozen);
+  const frozen = Array.from({ length: nFrozen }, (_, i) => i);
+  const frozenRight = Array.from({ length: nRight }, (_, i) => n - nRight + i);
+  const end = n - nRight; // første høyrefrosne (eller n)
+  if (nFrozen === end) return { frozen, window: [], frozenRight, padLeft: 0, padRight: 0 };
+
+  const frozenEnd = lefts[nFrozen];
+  const rightWidth = frozenRight.reduce((sum, i) => sum + widths[i], 0);
+  const middleEnd = lefts[end - 1] + widths[end - 1];
+  const lo = scrollLeft + frozenEnd - overscan;
+  const hi = scrollLeft + viewportWidth - rightWidth + overscan;
+
+  let first = nFrozen;
+  while (first < end - 1 && lefts[first] + widths[first] < lo) first++;
+  let last = first;
+  while (last < end - 1 && lefts[last + 1] <= hi) last++;
+
+  return {
+    frozen,
+    window: Array.from({ length: last - first + 1 }, (_, i) => first + i),
+    frozenRight,
+    padLeft: lefts[first] - frozenEnd,
+    padRight: middleEnd - (lefts[last] + widths[last]),
+  };
+}
+
+/**
+ * Offset-indeks for rader med variabel høyde.
+ * offsets[i] = y-posisjon til rad i, offsets[count] = total høyde.
+ */
+export function buildRowOffsets(count: number, heightAt: (i: number) => number): number[] {
+  const offsets = new Array<number>(count + 1);
+  offsets[0] = 0;
+  for (let i = 0; i < count; i++) offsets[i + 1] = offsets[i] + heightAt(i);
+  return offsets;
+}
+
+/** Indeks til raden som dekker y (binærsøk i offsets). */
+export function findRowAt(offsets: number[], y: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let lo = 0, hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid; else hi = mid - 1;
+  }
+  return lo;
+}
@@ -0,0 +1,139 @@
+import type { SavedView, TableViewState } from '../types';
+import type { Repository } from '../types';
+import type { RowPatch, BulkPatch } from '../types';
+import { TABLES } from './types';
+import { IndexedDBDriver } from '../drivers/IndexedDBDriver';
+
+/**
+ * Navngitte tabellvisninger per prosjekt og adapter.
+ * Standardvisning settes per bruker (defaultFor), maks én per prosjekt/adapter/bruker.
+ */
+export class ViewRepo implements Repository<SavedView> {
+  constructor(private db: IndexedDBDriver) {}
+
+  async listByProject(projectId: string): Promise<SavedView[]> {
+    return this.db.listByIndex<SavedView>(TABLES.views, 'by_project', projectId);
+  }
+
+  async listFor(projectId: string, adapterId: string): Promise<SavedView[]> {
+    const all = await this.listByProject(projectId);
+    return all
+      .filter(v => v.adapterId === adapterId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<SavedView | null> {
+    return this.db.get<SavedView>(TABLES.views, id);
+  }
+
+  async patch(id: string, patch: RowPatch, opts?: { rowVersion?: number }): Promise<void> {
+    const current = await this.get(id);
+    if (!current) throw new Error('SavedView not found');
+    if (opts?.rowVersion !== undefined && current.rowVersion !== opts.rowVersion) {
+      throw new Error('Conflict (rowVersion mismatch)');
+    }
+    const next: SavedView = { ...current };
+    Object.entries(patch.changes).forEach(([k, v]) => {
+      (next as any)[k] = v.next;
+    });
+    next.rowVersion = (current.rowVersion ?? 0) + 1;
+    next.updatedAt = new Date().toISOString();
+    await this.db.put<SavedView>(TABLES.views, next);
+  }
+
+  async bulkPatch(projectId: string, bulk: BulkPatch): Promise<void> {
+    const current = await this.listByProject(projectId);
+    const map = new Map(current.map(v => [v.id, v]));
+    const changed = new Set<string>();
+    const now = new Date().toISOString();
+
+    for (const p of bulk.patches) {
+      const view = map.get(p.rowId);
+      if (!view) continue;
+      const next = { ...view, [p.colId]: p.nextValue } as SavedView;
+      // Flere felt på samme visning gir én ny versjon
+      if (!changed.has(p.rowId)) next.rowVersion = (view.rowVersion ?? 0) + 1;
+      next.updatedAt = now;
+      map.set(p.rowId, next);
+      changed.add(p.rowId);
+    }
+
+    const updates = [...changed].map(id => map.get(id)!);
+    if (updates.length) await this.db.bulkPut<SavedView>(TABLES.views, updates);
+  }
+
+  async create(data: SavedView): Promise<void> {
+    await this.db.put<SavedView>(TABLES.views, {
+      ...data,
+      rowVersion: data.rowVersion ?? 1,
+      createdAt: data.createdAt ?? new Date().toISOString(),
+      updatedAt: data.updatedAt ?? new Date().toISOString(),
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.db.delete(TABLES.views, id);
+  }
+
+  /** Lagre ny visning og returner den. */
+  async saveAs(projectId: string, adapterId: string, name: string, state: TableViewState, createdBy?: string): Promise<SavedView> {
+    const now = new Date().toISOString();
+    const view: SavedView = {
+      id: crypto.randomUUID(),
+      projectId,
+      adapterId,
+      name,
+      state,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.create(view);
+    return view;
+  }
+
+  async updateState(id: string, state: TableViewState): Promise<void> {
+    const current = await this.get(id);
+    if (!current) throw new Error('SavedView not found');
+    await this.patch(id, { rowId: id, changes: { state: { old: current.state, next: state } } });
+  }
+
+  async rename(id: string, name: string): Promise<void> {
+    const current = await this.get(id);
+    if (!current) throw new Error('SavedView not found');
+    await this.patch(id, { rowId: id, changes: { name: { old: current.name, next: name } } });
+  }
+
+  /** Sett standardvisning for brukeren; fjerner brukeren fra andre visninger for samme adapter. */
+  async setDefault(id: string, userId: string): Promise<void> {
+    const view = await this.get(id);
+    if (!view) throw new Error('SavedView not found');
+    const siblings = await this.listFor(view.projectId, view.adapterId);
+    const now = new Date().toISOString();
+    const updates: SavedView[] = [];
+    for (const v of siblings) {
+      const has = v.defaultFor?.includes(userId) ?? false;
+      const should = v.id === id;
+      if (has === should) continue;
+      const defaultFor = should ? [...(v.defaultFor ?? []), userId] : (v.defaultFor ?? []).filter(u => u !== userId);
+      updates.push({ ...v, defaultFor, updatedAt: now, rowVersion: (v.rowVersion ?? 0) + 1 });
+    }
+    if (updates.length) await this.db.bulkPut<SavedView>(TABLES.views, updates);
+  }
+
+  async clearDefault(projectId: string, adapterId: string, userId: string): Promise<void> {
+    const current = await this.getDefault(projectId, adapterId, userId);
+    if (!current) return;
+    await this.db.put<SavedView>(TABLES.views, {
+      ...current,
+      defaultFor: (current.defaultFor ?? []).filter(u => u !== userId),
+      updatedAt: new Date().toISOString(),
+      rowVersion: (current.rowVersion ?? 0) + 1,
+    });
+  }
+
+  async getDefault(projectId: string, adapterId: string, userId: string): Promise<SavedView | null> {
+    const views = await this.listFor(projectId, adapterId);
+    return views.find(v => v.defaultFor?.includes(userId)) ?? null;
+  }
+}
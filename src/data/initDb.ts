@@ -1,7 +1,7 @@
 import { IndexedDBDriver } from '../drivers/IndexedDBDriver';
 import { TABLES } from './types';
 
-export const db = new IndexedDBDriver('tablecore-db', 1, [
+export const db = new IndexedDBDriver('tablecore-db', 2, [
   { name: TABLES.projects,      keyPath: 'id', indices: [{ name: 'by_name', keyPath: 'name', unique: false }] },
   { name: TABLES.activities,    keyPath: 'id', indices: [{ name: 'by_project', keyPath: 'projectId', unique: false }] },
   { name: TABLES.dependencies,  keyPath: 'id' },
@@ -9,6 +9,7 @@ export const db = new IndexedDBDriver('tablecore-db', 1, [
   { name: TABLES.formTemplates, keyPath: 'id' },
   { name: TABLES.formEntries,   keyPath: 'id', indices: [{ name: 'by_project', keyPath: 'projectId', unique: false }] },
   { name: TABLES.events,        keyPath: 'id', indices: [{ name: 'by_project', keyPath: 'projectId', unique: false }] },
+  { name: TABLES.views,         keyPath: 'id', indices: [{ name: 'by_project', keyPath: 'projectId', unique: false }] },
 ]);
 
 export async function ensureDb() {
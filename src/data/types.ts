@@ -6,6 +6,7 @@ export const TABLES = {
   formTemplates: 'formTemplates',
   formEntries: 'formEntries',
   events: 'events',
+  views: 'views',
 } as const;
 
 export type TableName = typeof TABLES[keyof typeof TABLES];
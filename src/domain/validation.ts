@@ -1,16 +1,19 @@
 import type { Activity } from '../types';
 import { parseISO } from './durationRules';
+import { CodedError } from '../i18n/codes';
 
-export function validateActivityDates(a: Activity): Error | void {
+// Feilene er koder med parametre; teksten hentes fra meldingskatalogen der feilen vises
+
+export function validateActivityDates(a: Pick<Activity, 'start' | 'end'>): Error | void {
   if (!a.start || !a.end) return;
   const s = parseISO(a.start);
   const e = parseISO(a.end);
-  if (!s || !e) return new Error('Ugyldig datoformat');
-  if (e < s) return new Error('Sluttdato kan ikke være før startdato');
+  if (!s || !e) return new CodedError('validation.invalidDate');
+  if (e < s) return new CodedError('validation.endBeforeStart');
 }
 
-export function validateActivityDuration(a: Activity): Error | void {
+export function validateActivityDuration(a: Pick<Activity, 'durationDays'>): Error | void {
   if (a.durationDays !== undefined && a.durationDays < 1) {
-    return new Error('Varighet må være minst 1 dag');
+    return new CodedError('validation.minDuration', { count: 1 });
   }
 }
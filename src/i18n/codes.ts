@@ -0,0 +1,23 @@
+import type { MessageParams } from '../types';
+import type { MessageKey } from './nb';
+
+/**
+ * Meldingskoder uten React: domeneregler og kjernelogikk lager feil med kode + parametre,
+ * og UI-et oversetter dem der de vises (se index.ts).
+ */
+
+export type { MessageKey, Messages } from './nb';
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+/** Feil med meldingsnøkkel og parametre i stedet for ferdig tekst (message er koden). */
+export class CodedError extends Error {
+  constructor(readonly code: MessageKey, readonly params?: MessageParams) {
+    super(code);
+    this.name = 'CodedError';
+  }
+}
+
+/** Teksten for en feil på gjeldende språk; vanlige Error-er vises som de er. */
+export const describeError = (err: Error, t: Translate) =>
+  err instanceof CodedError ? t(err.code, err.params) : err.message;
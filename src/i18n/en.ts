@@ -0,0 +1,144 @@
+import type { Messages } from './nb';
+
+/** English. */
+export const en: Messages = {
+  'edit.invalid': 'Invalid value in {column}: {error}',
+  'edit.saved': '{column} saved',
+  'edit.savedWithError': '{column} saved with error: {error}',
+  'paste.cells': { one: '{count} cell pasted', other: '{count} cells pasted' },
+  'paste.newRows': { one: '{count} new row', other: '{count} new rows' },
+  'paste.skipped': '{count} skipped',
+  'paste.droppedLines': { one: '{count} line not pasted (no more rows)', other: '{count} lines not pasted (no more rows)' },
+  'paste.confirmNewRows': 'Pasting creates {count} new rows. Do you want to continue?',
+  'rows.confirmDelete': { one: 'Delete {count} row?', other: 'Delete {count} rows?' },
+  'rows.confirmDeleteWithChildren': { one: 'Delete {count} row and {extra} descendants?', other: 'Delete {count} rows and {extra} descendants?' },
+  'export.fileName': 'selection.csv',
+  'clipboard.failed': 'The clipboard is not available. Use Ctrl/Cmd+C, X or V.',
+
+  'command.copy': 'Copy',
+  'command.cut': 'Cut',
+  'command.paste': 'Paste',
+  'command.exportSelection': 'Export selection (CSV)',
+  'command.insertRowAbove': 'Insert row above',
+  'command.insertRowBelow': 'Insert row below',
+  'command.insertChildRow': 'Insert child row',
+  'command.duplicateRows': 'Duplicate rows',
+  'command.deleteRows': 'Delete rows',
+
+  'columnMenu.sortAsc': 'Sort ascending',
+  'columnMenu.sortDesc': 'Sort descending',
+  'columnMenu.freezeLeft': 'Freeze columns up to this one',
+  'columnMenu.freezeRight': 'Freeze columns from this one to the right',
+  'columnMenu.unfreezeColumns': 'Unfreeze columns',
+  'columnMenu.freezeRows': { one: 'Freeze top row', other: 'Freeze top {count} rows' },
+  'columnMenu.unfreezeRows': 'Unfreeze rows',
+  'columnMenu.hide': 'Hide column',
+  'columnMenu.group': 'Group by this column',
+
+  'grid.rowNumber': 'Row number',
+  'grid.chooseColumns': 'Choose columns',
+  'grid.selectColumn': 'Click to select the column, Shift/Ctrl+click for more',
+  'grid.filtered': 'Filtered',
+  'grid.resizeColumn': 'Drag to resize, double-click to fit',
+  'grid.sortColumn': 'Click to sort, Shift+click for multiple columns',
+  'grid.columnMenu': 'Column menu',
+  'grid.filterFor': 'Filter {column}',
+  'grid.totals': 'Total',
+  'grid.summary': 'Summary',
+  'grid.row': 'Row {index}',
+  'grid.groupRow': 'Group row',
+  'grid.summaryRow': 'Summary row',
+  'grid.rowErrors': { one: '{count} validation error (F8 for next)', other: '{count} validation errors (F8 for next)' },
+  'grid.dragRow': 'Drag to move row',
+  'grid.collapse': 'Collapse',
+  'grid.expand': 'Expand',
+  'grid.computed': 'Computed value',
+  'grid.fillHandle': 'Drag to fill',
+  'grid.emptyGroup': '(empty)',
+
+  'search.noHits': 'No matches',
+  'search.placeholder': 'Search…',
+  'search.toggleReplace': 'Show/hide replace',
+  'search.prev': 'Previous (Shift+Enter)',
+  'search.next': 'Next (Enter)',
+  'search.close': 'Close (Esc)',
+  'search.replacePlaceholder': 'Replace with…',
+  'search.replace': 'Replace',
+  'search.replaceAll': 'Replace all',
+
+  'filter.operator': 'Operator',
+  'filter.placeholder': 'Filter…',
+  'filter.min': 'Min',
+  'filter.max': 'Max',
+  'filter.from': 'From',
+  'filter.to': 'To',
+  'filter.all': 'All',
+  'filter.selected': '{count} selected',
+  'filter.empty': '(empty)',
+  'filter.clear': 'Clear filter',
+
+  'groupPanel.groupedBy': 'Grouped by',
+  'groupPanel.dropHint': 'Drag a column header here to group',
+  'groupPanel.remove': 'Remove grouping',
+  'columnChooser.showAll': 'Show all',
+
+  'toolbar.label': 'Toolbar',
+  'save.idle': 'Ready',
+  'save.saving': 'Saving…',
+  'save.saved': 'Saved',
+  'save.error': 'Error',
+  'views.label': 'View',
+  'views.default': 'Default layout',
+  'views.unsaved': 'Unsaved changes',
+  'views.save': 'Save',
+  'views.saveTitle': 'Save changes to the view',
+  'views.saveAs': 'Save as…',
+  'views.rename': 'Rename…',
+  'views.setDefault': 'Use as my default view',
+  'views.delete': 'Delete',
+  'views.deleteTitle': 'Delete view',
+  'views.namePrompt': 'View name',
+  'views.copyName': '{name} (copy)',
+  'views.renamePrompt': 'New name',
+  'views.confirmDelete': 'Delete the view “{name}”?',
+
+  'formula.unterminatedString': 'Missing closing "',
+  'formula.missingBracket': 'Missing ]',
+  'formula.unknownChar': 'Unknown character “{char}”',
+  'formula.expected': 'Expected “{token}”',
+  'formula.incomplete': 'Incomplete formula',
+  'formula.expectedColumn': 'Expected a column after the row reference',
+  'formula.emptyRowRef': 'Empty row reference',
+  'formula.unexpected': 'Unexpected “{token}”',
+  'formula.notANumber': '“{value}” is not a number',
+  'formula.notADate': '“{value}” is not a date',
+  'formula.divByZero': 'Division by zero',
+  'formula.unknownOperator': 'Unknown operator {op}',
+  'formula.argCount': 'Wrong number of arguments (expected {expected})',
+  'formula.averageEmpty': 'No numbers to average',
+  'formula.ifArgs': 'IF takes 2 or 3 arguments',
+  'formula.unknownFunction': 'Unknown function {name}',
+  'formula.rangeOutsideFunction': 'A range must be used in a function such as SUM',
+  'formula.invalidNumber': 'Invalid number',
+  'formula.cycle': 'Circular reference',
+  'formula.unknownColumn': 'Unknown column {column}',
+  'formula.unknownRow': 'Unknown row {row}',
+  'formula.unknownRange': 'Unknown range {from}:{to}',
+  'formula.failed': 'Formula error: {detail}',
+
+  'validation.notANumber': 'Not a number: “{text}”',
+  'validation.invalidDate': 'Invalid date format',
+  'validation.endBeforeStart': 'End date cannot be before start date',
+  'validation.minDuration': { one: 'Duration must be at least {count} day', other: 'Duration must be at least {count} days' },
+
+  'progress.code': 'Code',
+  'progress.name': 'Activity',
+  'progress.start': 'Start',
+  'progress.end': 'End',
+  'progress.duration': 'Duration (days)',
+  'progress.color': 'Color',
+  'progress.status': 'Status',
+  'status.planned': 'Planned',
+  'status.inprogress': 'In progress',
+  'status.done': 'Done',
+};
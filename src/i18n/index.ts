@@ -0,0 +1,57 @@
+import * as React from 'react';
+import type { Locale, Message, MessageParams } from '../types';
+import { nb, Messages } from './nb';
+import { en } from './en';
+import type { Translate } from './codes';
+
+/**
+ * Språk for UI-tekster.
+ * - Katalog pr språk (nb er grunnkatalogen); appen kan overstyre enkeltmeldinger.
+ * - Språk gis via I18nContext (hele appen) eller TableCore.locale/messages (én tabell, over konteksten).
+ * - Domeneregler kaster/returnerer CodedError (kode + parametre, fra codes.ts uten React), som oversettes der feilen vises.
+ */
+
+export type { MessageKey, Messages, Translate } from './codes';
+export { CodedError, describeError } from './codes';
+
+export const CATALOGS: Record<Locale, Messages> = { nb, en };
+
+export type Translator = {
+  locale: Locale;
+  t: Translate;
+  messages: Messages;
+};
+
+// {name} → params.name; ukjente plassholdere står urørt
+const interpolate = (text: string, params?: MessageParams) =>
+  params ? text.replace(/\{(\w+)\}/g, (m, name) => (name in params ? String(params[name]) : m)) : text;
+
+/** Én melding med parametre og flertallsform; også for appens egne kataloger (f.eks. demoens). */
+export function formatMessage(msg: Message, plural: Intl.PluralRules, params?: MessageParams): string {
+  if (typeof msg === 'string') return interpolate(msg, params);
+  const count = Number(params?.count ?? 0);
+  const form = count === 0 && msg.zero !== undefined ? msg.zero : msg[plural.select(count)] ?? msg.other;
+  return interpolate(form, params);
+}
+
+export function createTranslator(locale: Locale, overrides?: Partial<Messages>): Translator {
+  const messages: Messages = { ...nb, ...CATALOGS[locale], ...overrides };
+  const plural = new Intl.PluralRules(locale);
+  const t: Translate = (key, params) => {
+    const msg: Message | undefined = messages[key];
+    return msg === undefined ? key : formatMessage(msg, plural, params);
+  };
+  return { locale, t, messages };
+}
+
+/** Språk lagt over base (typisk språket fra konteksten); uendret base hvis ingenting er gitt. */
+export function resolveTranslator(locale: Locale | undefined, overrides: Partial<Messages> | undefined, base: Translator): Translator {
+  if (!locale && !overrides) return base;
+  const sameLocale = !locale || locale === base.locale;
+  return createTranslator(locale ?? base.locale, sameLocale ? { ...base.messages, ...overrides } : overrides);
+}
+
+export const defaultTranslator = createTranslator('nb');
+
+export const I18nContext = React.createContext<Translator>(defaultTranslator);
+export const useI18n = () => React.useContext(I18nContext);
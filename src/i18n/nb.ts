@@ -0,0 +1,161 @@
+import type { Message } from '../types';
+
+/**
+ * Norsk bokmål – grunnkatalogen. Nøklene her er fasiten for alle andre språk (MessageKey).
+ * Plassholdere skrives {navn}; flertall velges på {count}.
+ */
+export const nb = {
+  // Redigering og utklippstavle (kunngjøringer til skjermlesere)
+  'edit.invalid': 'Ugyldig verdi i {column}: {error}',
+  'edit.saved': '{column} lagret',
+  'edit.savedWithError': '{column} lagret med feil: {error}',
+  'paste.cells': { one: '{count} celle limt inn', other: '{count} celler limt inn' },
+  'paste.newRows': { one: '{count} ny rad', other: '{count} nye rader' },
+  'paste.skipped': '{count} hoppet over',
+  'paste.droppedLines': { one: '{count} linje ikke limt inn (ingen flere rader)', other: '{count} linjer ikke limt inn (ingen flere rader)' },
+  'paste.confirmNewRows': 'Innlimingen lager {count} nye rader. Vil du fortsette?',
+  'rows.confirmDelete': { one: 'Slette {count} rad?', other: 'Slette {count} rader?' },
+  'rows.confirmDeleteWithChildren': { one: 'Slette {count} rad og {extra} underliggende?', other: 'Slette {count} rader og {extra} underliggende?' },
+  'export.fileName': 'markering.csv',
+  'clipboard.failed': 'Utklippstavlen er ikke tilgjengelig. Bruk Ctrl/Cmd+C, X eller V.',
+
+  // Kommandoer (kontekstmeny)
+  'command.copy': 'Kopier',
+  'command.cut': 'Klipp ut',
+  'command.paste': 'Lim inn',
+  'command.exportSelection': 'Eksporter markering (CSV)',
+  'command.insertRowAbove': 'Sett inn rad over',
+  'command.insertRowBelow': 'Sett inn rad under',
+  'command.insertChildRow': 'Sett inn underrad',
+  'command.duplicateRows': 'Dupliser rader',
+  'command.deleteRows': 'Slett rader',
+
+  // Kolonnemeny
+  'columnMenu.sortAsc': 'Sorter stigende',
+  'columnMenu.sortDesc': 'Sorter synkende',
+  'columnMenu.freezeLeft': 'Frys kolonner til og med denne',
+  'columnMenu.freezeRight': 'Frys kolonner fra og med denne til høyre',
+  'columnMenu.unfreezeColumns': 'Opphev frysing av kolonner',
+  'columnMenu.freezeRows': { one: 'Frys øverste rad', other: 'Frys de {count} øverste radene' },
+  'columnMenu.unfreezeRows': 'Opphev frysing av rader',
+  'columnMenu.hide': 'Skjul kolonne',
+  'columnMenu.group': 'Grupper etter kolonnen',
+
+  // Rutenettet
+  'grid.rowNumber': 'Radnummer',
+  'grid.chooseColumns': 'Velg kolonner',
+  'grid.selectColumn': 'Klikk for å markere kolonnen, Shift/Ctrl+klikk for flere',
+  'grid.filtered': 'Filtrert',
+  'grid.resizeColumn': 'Dra for å endre bredde, dobbeltklikk for å tilpasse',
+  'grid.sortColumn': 'Klikk for å sortere, Shift+klikk for flere kolonner',
+  'grid.columnMenu': 'Kolonnemeny',
+  'grid.filterFor': 'Filter {column}',
+  'grid.totals': 'Totalt',
+  'grid.summary': 'Oppsummering',
+  'grid.row': 'Rad {index}',
+  'grid.groupRow': 'Grupperad',
+  'grid.summaryRow': 'Oppsummeringsrad',
+  'grid.rowErrors': '{count} valideringsfeil (F8 for neste)',
+  'grid.dragRow': 'Dra for å flytte rad',
+  'grid.collapse': 'Kollaps',
+  'grid.expand': 'Ekspander',
+  'grid.computed': 'Beregnet verdi',
+  'grid.fillHandle': 'Dra for å fylle',
+  'grid.emptyGroup': '(tom)',
+
+  // Søk og erstatt
+  'search.noHits': 'Ingen treff',
+  'search.placeholder': 'Søk…',
+  'search.toggleReplace': 'Vis/skjul erstatt',
+  'search.prev': 'Forrige (Shift+Enter)',
+  'search.next': 'Neste (Enter)',
+  'search.close': 'Lukk (Esc)',
+  'search.replacePlaceholder': 'Erstatt med…',
+  'search.replace': 'Erstatt',
+  'search.replaceAll': 'Erstatt alle',
+
+  // Filterraden
+  'filter.operator': 'Operator',
+  'filter.placeholder': 'Filter…',
+  'filter.min': 'Min',
+  'filter.max': 'Maks',
+  'filter.from': 'Fra',
+  'filter.to': 'Til',
+  'filter.all': 'Alle',
+  'filter.selected': '{count} valgt',
+  'filter.empty': '(tom)',
+  'filter.clear': 'Fjern filter',
+
+  // Gruppering og kolonnevelger
+  'groupPanel.groupedBy': 'Gruppert etter',
+  'groupPanel.dropHint': 'Dra en kolonneoverskrift hit for å gruppere',
+  'groupPanel.remove': 'Fjern gruppering',
+  'columnChooser.showAll': 'Vis alle',
+
+  // Verktøylinje, lagring og visninger
+  'toolbar.label': 'Verktøylinje',
+  'save.idle': 'Klar',
+  'save.saving': 'Lagrer…',
+  'save.saved': 'Lagret',
+  'save.error': 'Feil',
+  'views.label': 'Visning',
+  'views.default': 'Standardoppsett',
+  'views.unsaved': 'Ulagrede endringer',
+  'views.save': 'Lagre',
+  'views.saveTitle': 'Lagre endringer i visningen',
+  'views.saveAs': 'Lagre som…',
+  'views.rename': 'Gi nytt navn…',
+  'views.setDefault': 'Bruk som min standardvisning',
+  'views.delete': 'Slett',
+  'views.deleteTitle': 'Slett visning',
+  'views.namePrompt': 'Navn på visning',
+  'views.copyName': '{name} (kopi)',
+  'views.renamePrompt': 'Nytt navn',
+  'views.confirmDelete': 'Slette visningen «{name}»?',
+
+  // Formelfeil (forklaringen i cellens tooltip; koden som #DIV/0! vises i cella)
+  'formula.unterminatedString': 'Mangler avsluttende "',
+  'formula.missingBracket': 'Mangler ]',
+  'formula.unknownChar': 'Ukjent tegn «{char}»',
+  'formula.expected': 'Forventet «{token}»',
+  'formula.incomplete': 'Uferdig formel',
+  'formula.expectedColumn': 'Forventet kolonne etter radreferanse',
+  'formula.emptyRowRef': 'Tom radreferanse',
+  'formula.unexpected': 'Uventet «{token}»',
+  'formula.notANumber': '«{value}» er ikke et tall',
+  'formula.notADate': '«{value}» er ikke en dato',
+  'formula.divByZero': 'Deling på null',
+  'formula.unknownOperator': 'Ukjent operator {op}',
+  'formula.argCount': 'Feil antall argumenter (forventet {expected})',
+  'formula.averageEmpty': 'Ingen tall å beregne snitt av',
+  'formula.ifArgs': 'IF tar 2 eller 3 argumenter',
+  'formula.unknownFunction': 'Ukjent funksjon {name}',
+  'formula.rangeOutsideFunction': 'Et område må brukes i en funksjon som SUM',
+  'formula.invalidNumber': 'Ugyldig tall',
+  'formula.cycle': 'Sirkulær referanse',
+  'formula.unknownColumn': 'Ukjent kolonne {column}',
+  'formula.unknownRow': 'Ukjent rad {row}',
+  'formula.unknownRange': 'Ukjent område {from}:{to}',
+  'formula.failed': 'Formelfeil: {detail}',
+
+  // Validering (koder fra domain/validation og tallkolonner)
+  'validation.notANumber': 'Ikke et tall: «{text}»',
+  'validation.invalidDate': 'Ugyldig datoformat',
+  'validation.endBeforeStart': 'Sluttdato kan ikke være før startdato',
+  'validation.minDuration': { one: 'Varighet må være minst {count} dag', other: 'Varighet må være minst {count} dager' },
+
+  // Progress-adapteren
+  'progress.code': 'Kode',
+  'progress.name': 'Aktivitet',
+  'progress.start': 'Start',
+  'progress.end': 'Slutt',
+  'progress.duration': 'Varighet (dager)',
+  'progress.color': 'Farge',
+  'progress.status': 'Status',
+  'status.planned': 'Planlagt',
+  'status.inprogress': 'Pågår',
+  'status.done': 'Ferdig',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof nb;
+export type Messages = Record<MessageKey, Message>;
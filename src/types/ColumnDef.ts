@@ -1,9 +1,46 @@
+import type { ComponentType } from 'react';
 import type { CellType, Option } from './common';
+import type { MessageParams } from './I18n';
 
 export type Formatter<T = any> = (value: T, row: any) => string;
 export type Parser<T = any> = (text: string) => T;
 export type EditableGuard = (row: any) => boolean;
-export type Validator<T = any> = (value: T, row: any) => Error | void;
+export type Validator<T = any, TRow = any> = (value: T, row: TRow) => Error | void;
+// message er oversatt; code/params er med når validatoren ga en CodedError (se i18n)
+export type CellError = { rowId: string; colId: string; message: string; code?: string; params?: MessageParams };
+export type Comparator<T = any, TRow = any> = (a: T, b: T, rowA: TRow, rowB: TRow) => number;
+
+// Innebygd aggregering eller egen reduksjon over kolonneverdiene (earliest/latest tolker verdiene som datoer)
+export type AggregateKind = 'sum' | 'avg' | 'min' | 'max' | 'count' | 'earliest' | 'latest';
+export type AggregateReducer<T = any, TRow = any> = (values: T[], rows: TRow[]) => any;
+export type Aggregate = AggregateKind | AggregateReducer;
+
+// Egen visning av en celle (fremdriftslinje, avatar, statusmerke …). text er verdien slik den ellers vises.
+export type CellRendererProps<TRow = any, TValue = any> = {
+  value: TValue;
+  text: string;
+  row: TRow;
+  column: ColumnDef<TRow, TValue>;
+  selected: boolean;
+};
+
+/**
+ * Kontrakt for egne editorer. value er utkastet; onChange oppdaterer det, commit() lagrer det
+ * (commit(v) lagrer v direkte, f.eks. ved valg i en liste) og gir false hvis valideringen avviser verdien.
+ * Enter lagrer og Esc avbryter som i de innebygde editorene; elementer med data-tc-input eier egne taster.
+ */
+export type CellEditorProps<TRow = any, TValue = any> = {
+  value: TValue;
+  onChange: (value: TValue) => void;
+  commit: (...value: [] | [TValue]) => boolean;
+  cancel: () => void;
+  row: TRow;
+  column: ColumnDef<TRow, TValue>;
+  error?: string | null; // avvist verdi (validationMode 'block')
+};
+
+export type CellRenderer<TRow = any, TValue = any> = ComponentType<CellRendererProps<TRow, TValue>>;
+export type CellEditor<TRow = any, TValue = any> = ComponentType<CellEditorProps<TRow, TValue>>;
 
 export type ColumnDef<TRow = any, TValue = any> = {
   id: string;
@@ -13,6 +50,18 @@ export type ColumnDef<TRow = any, TValue = any> = {
   editable?: EditableGuard;
   parse?: Parser<TValue>;
   format?: Formatter<TValue>;
-  validate?: Validator<TValue>;
+  // Visning på tabellens språk for number/date uten egen format (se core/formatting.ts)
+  numberFormat?: Intl.NumberFormatOptions; // f.eks. { style: 'currency', currency: 'NOK' } eller { style: 'percent' }
+  dateFormat?: Intl.DateTimeFormatOptions; // standard dd.mm.åååå
+  validate?: Validator<TValue, TRow>;
   options?: Option[]; // for select
+  sortable?: boolean; // default true
+  filterable?: boolean; // default true
+  wrap?: boolean; // bryt tekst over flere linjer; raden får målt høyde
+  compare?: Comparator<TValue, TRow>; // overstyrer typebasert sortering
+  formula?: boolean; // verdier som starter med "=" beregnes som formler (se core/formula.ts)
+  aggregate?: Aggregate; // verdi i grupperader, oppsummeringsrader, foreldrerader (tremodus) og totalrad
+  render?: CellRenderer<TRow, TValue>; // overstyrer visningen i datarader og oppsummeringsrader
+  editor?: CellEditor<TRow, TValue>;   // overstyrer editoren
+  customType?: string; // navn i celletyperegisteret (core/cellTypes.ts); standard er type
 };
@@ -0,0 +1,69 @@
+import type { ColumnDef } from './ColumnDef';
+import type { Selection } from './common';
+
+/** Innebygde tabellkommandoer som kan bindes om via `keymap`. */
+export type BuiltinCommandId =
+  | 'copy'
+  | 'copyFormatted'
+  | 'paste'
+  | 'cut'
+  | 'undo'
+  | 'redo'
+  | 'delete'
+  | 'edit'
+  | 'nextCell'
+  | 'prevCell'
+  | 'moveUp'
+  | 'moveDown'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'expand'
+  | 'collapse'
+  | 'indent'
+  | 'outdent'
+  | 'moveRowUp'
+  | 'moveRowDown'
+  | 'insertRowAbove'
+  | 'insertRowBelow'
+  | 'insertChildRow'
+  | 'duplicateRows'
+  | 'deleteRows'
+  | 'fillDown'
+  | 'fillRight'
+  | 'search'
+  | 'nextError'
+  | 'prevError'
+  | 'selectRow'
+  | 'selectColumn'
+  | 'selectAll'
+  | 'exportSelection';
+
+/** Det en kommando får se når den kjøres. */
+export type CommandContext<Row = { id: string; [key: string]: any }> = {
+  selection: Selection | null;      // områder adressert med rad-/kolonne-id
+  selectedRows: Row[];              // rader i minst ett område, i visningsrekkefølge (uten grupperader)
+  selectedColumns: ColumnDef[];     // kolonner i minst ett område
+  activeRowId: string | null;
+  activeColId: string | null;
+  rows: Row[];
+  editing: boolean;
+};
+
+/**
+ * App-definert kommando. Samme id som en innebygd kommando erstatter den innebygde handlingen.
+ * Tastekombinasjoner skrives som "Mod+Shift+K" (Mod = Cmd på Mac, Ctrl ellers).
+ */
+export type TableCommand<Row = { id: string; [key: string]: any }> = {
+  id: string;
+  label?: string;
+  keys?: string[];
+  whileEditing?: boolean; // kjør også mens en celle redigeres
+  run: (ctx: CommandContext<Row>) => void;
+};
+
+/** Samme tastekombinasjon bundet til flere kommandoer; `winner` er den som beholdes. */
+export type KeyConflict = {
+  chord: string;
+  commands: string[];
+  winner: string;
+};
@@ -0,0 +1,9 @@
+/**
+ * Meldingskatalog for UI-tekster (se src/i18n).
+ * Tekster kan ha plassholdere ({count}, {column}) og flertallsformer valgt med Intl.PluralRules.
+ */
+export type Locale = 'nb' | 'en';
+
+export type PluralMessage = { zero?: string; one?: string; two?: string; few?: string; many?: string; other: string };
+export type Message = string | PluralMessage;
+export type MessageParams = Record<string, string | number>;
@@ -14,4 +14,13 @@ export type BulkPatch = {
   patches: CellPatch[];
 };
 
+// Nye rader fra tabellen; id-ene er generert av TableCore.
+// 'undo' legger tilbake slettede rader med opprinnelige id-er og verdier.
+export type RowInsert<TRow = any> = {
+  rows: TRow[];
+  afterRowId: string | null;  // plasseres etter denne raden (null = først)
+  parentId?: string | null;   // forelder i tremodus for rader uten egen parentId (undertrær har sin egen)
+  source: 'paste' | 'insert' | 'duplicate' | 'undo';
+};
+
 export type Patch = CellPatch | RowPatch | BulkPatch;
@@ -0,0 +1,19 @@
+import type { Id } from './common';
+import type { TableViewState } from './TableState';
+
+/**
+ * Navngitt tabellvisning (kolonner, sortering, filtre, gruppering),
+ * lagret per prosjekt og per adapter.
+ */
+export type SavedView = {
+  id: Id;
+  projectId: Id;
+  adapterId: string;   // f.eks. 'progress', 'estimates', 'forms:<templateId>'
+  name: string;
+  state: TableViewState;
+  defaultFor?: Id[];   // brukere som har denne som standardvisning
+  createdBy?: Id;
+  createdAt: string;   // ISO
+  updatedAt: string;   // ISO
+  rowVersion?: number;
+};
@@ -0,0 +1,71 @@
+/**
+ * Tilstand for tabellvisning som appen kan styre og lagre (sortering m.m.).
+ * Alt her skal være serialiserbart (JSON), slik at det kan lagres per bruker/prosjekt.
+ */
+
+export type SortDirection = 'asc' | 'desc';
+
+export type SortSpec = {
+  colId: string;
+  dir: SortDirection;
+};
+
+/** Prioritert liste – første element er primær sorteringsnøkkel. */
+export type SortState = SortSpec[];
+
+/*
+ * Kolonnefiltre. Operatorene avhenger av CellType, og alle aktive filtre
+ * kombineres med AND på tvers av kolonner.
+ */
+
+export type TextFilter = {
+  kind: 'text';
+  op: 'contains' | 'startsWith' | 'equals';
+  value: string;
+};
+
+export type NumberFilter = {
+  kind: 'number';
+  min?: number; // inkluderende
+  max?: number; // inkluderende
+};
+
+export type DateFilter = {
+  kind: 'date';
+  op: 'before' | 'after' | 'between'; // before bruker `to`, after bruker `from`
+  from?: string; // ISO (YYYY-MM-DD)
+  to?: string;   // ISO (YYYY-MM-DD), inkluderende ved between
+};
+
+export type SelectFilter = {
+  kind: 'select';
+  values: string[]; // tom liste = ingen filtrering
+};
+
+export type ColorFilter = {
+  kind: 'color';
+  value?: string; // hex
+};
+
+export type ColumnFilter = TextFilter | NumberFilter | DateFilter | SelectFilter | ColorFilter;
+
+/** colId → filter. */
+export type FilterState = Record<string, ColumnFilter>;
+
+/**
+ * Samlet visningsoppsett for en tabell – lagres av appen per bruker/prosjekt.
+ * Felter som mangler beholder TableCore sin nåværende/standard verdi.
+ */
+export type TableViewState = {
+  columnOrder?: string[];
+  columnWidths?: Record<string, number>;
+  hiddenColumns?: string[];
+  frozenColumns?: number; // antall frosne datakolonner fra venstre
+  frozenRightColumns?: number; // antall frosne datakolonner fra høyre
+  frozenRows?: number; // antall frosne rader øverst
+  sort?: SortState;
+  filters?: FilterState;
+  expanded?: string[]; // id'er til ekspanderte tre-noder
+  groupBy?: string[];  // kolonne-id'er det grupperes på
+  collapsedGroups?: string[]; // nøkler til lukkede grupper
+};
@@ -0,0 +1,31 @@
+/**
+ * Farger for TableCore og verktøylinjene. Alle verdier er CSS-farger/skygger.
+ * Hvert token kan også overstyres med en CSS-variabel (--tc-header-bg osv., se core/theme.ts).
+ */
+export type TableTheme = {
+  bodyBg: string;
+  bodyFg: string;
+  headerBg: string;
+  headerFg: string;
+  borderH: string;          // vannrette linjer
+  borderV: string;          // loddrette linjer
+  rowHeaderBg: string;      // #-kolonnen
+  rowHeaderFg: string;
+  mutedFg: string;          // hjelpetekst, snarveier
+  selectionOutline: string;
+  selectionFill: string;
+  hitOutline: string;       // søketreff
+  hitFill: string;
+  summaryBg: string;        // oppsummerings- og grupperader
+  treeLevelFg: string[];    // tekstfarge pr trenivå (siste gjelder dypere nivåer)
+  freezeShadow: string;     // skyggefarge ved fryselinjen
+  error: string;
+  danger: string;           // farlige menyvalg (slett)
+  menuBg: string;           // kontekstmeny, kolonnevelger, filterpaneler
+  menuHover: string;
+  editorBg: string;         // cella som redigeres
+  editorFg: string;
+  inputBorder: string;      // felt i filter- og søkerad
+};
+
+export type ThemeName = 'dark' | 'light' | 'high-contrast';
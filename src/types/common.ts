@@ -1,22 +1,25 @@
+import type { BuiltinCommandId } from './Commands';
+
 export type Id = string;
 
 export type ISODateString = string; // ISO 8601, UTC ved lagring.
 
+export type CellAddress = { rowId: string; colId: string };
+
+// Rektangel mellom to hjørner (i visningsrekkefølge). Uten rows = hele kolonner, uten cols = hele rader.
+export type CellRange = {
+  rows?: [string, string]; // [fra, til] rad-id
+  cols?: [string, string]; // [fra, til] kolonne-id
+};
+
 export type Selection = {
-  rows: number[];      // indeks-basert (for Tabellvisning)
-  cols: number[];      // indeks-basert
+  ranges: CellRange[];        // siste område er det aktive
+  active: CellAddress | null; // markøren; utgangspunkt for Shift-utvidelse
 };
 
-export type KeyBindings = Partial<{
-  copy: string[];
-  paste: string[];
-  cut: string[];
-  undo: string[];
-  redo: string[];
-  delete: string[];
-  nextCell: string[];
-  prevCell: string[];
-}>;
+// Kommando-id → tastekombinasjoner (f.eks. { copy: ['Mod+C', 'Ctrl+Insert'] }).
+// En tom liste fjerner bindingen. Egne kommandoer bindes med sin id.
+export type KeyBindings = Partial<Record<BuiltinCommandId, string[]>> & { [commandId: string]: string[] | undefined };
 
 export type CellType =
   | 'text'
@@ -6,3 +6,8 @@ export * from './Activity';
 export * from './EstimateItem';
 export * from './FormTemplate';
 export * from './Project';
+export * from './TableState';
+export * from './SavedView';
+export * from './Commands';
+export * from './Theme';
+export * from './I18n';
@@ -1,4 +1,6 @@
 import React from 'react';
+import { themeStyles, useTableTheme } from '../core/theme';
+import { useI18n } from '../i18n';
 
 export type ToolbarAction = {
   id: string;
@@ -38,14 +40,17 @@ export default function AppToolbar({
   variant = 'default',
 }: AppToolbarProps) {
   const H = dense ? 44 : 56;
-  const BG = variant === 'subtle' ? '#0b1220' : '#0f172a';
-  const BORDER = '#1f2937';
-  const FG = '#e5e7eb';
+  const { t: tr } = useI18n();
+  // Samme tema-tokens som tabellen (og components/AppToolbar)
+  const t = themeStyles(useTableTheme());
+  const BG = variant === 'subtle' ? t.bodyBg : t.headerBg;
+  const BORDER = t.borderH;
+  const FG = t.headerFg;
 
   return (
     <div
       role="toolbar"
-      aria-label={title ?? 'Verktøylinje'}
+      aria-label={title ?? tr('toolbar.label')}
       style={{
         display: 'grid',
         gridTemplateColumns: '1fr auto 1fr',